@@ -0,0 +1,219 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Mock Omniverse Kit App Streaming API serving the `/cfg/apps` and `/streaming/stream` endpoints
+ * called by src/Endpoints.tsx. It acts as both the app server and the stream server.
+ *
+ * Usage:
+ *     npm run mock-server -- [--port=8011] [--scenario=default] [--ready-after=2] [--route-host=127.0.0.1]
+ *
+ * Scenarios:
+ *     default        Catalog with two applications; sessions are ready immediately.
+ *     slow           Session creation answers 202 and the session reports 202 until it has been polled
+ *                    `--ready-after` times.
+ *     empty          The application catalog is empty.
+ *     no-versions    Applications have no versions.
+ *     no-profiles    Application versions have no profiles.
+ *     catalog-5xx    Listing applications fails with 500.
+ *     create-4xx     Creating a session fails with 403.
+ *     create-5xx     Creating a session fails with 503.
+ *     destroy-5xx    Destroying a session fails with 500.
+ */
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const scenarios = ['default', 'slow', 'empty', 'no-versions', 'no-profiles', 'catalog-5xx', 'create-4xx', 'create-5xx', 'destroy-5xx'];
+
+/**
+ * Parses `--name=value` command line arguments.
+ */
+function parseArguments(argv) {
+    const args = {};
+    for (const arg of argv) {
+        const match = /^--([^=]+)=(.*)$/.exec(arg);
+        if (match)
+            args[match[1]] = match[2];
+    }
+    return args;
+}
+
+const args = parseArguments(process.argv.slice(2));
+const port = Number(args.port ?? process.env.MOCK_SERVER_PORT ?? 8011);
+const scenario = args.scenario ?? process.env.MOCK_SERVER_SCENARIO ?? 'default';
+const readyAfter = Number(args['ready-after'] ?? 2);
+const routeHost = args['route-host'] ?? '127.0.0.1';
+
+if (!scenarios.includes(scenario)) {
+    console.error(`Unknown scenario '${scenario}'. Available scenarios: ${scenarios.join(', ')}`);
+    process.exit(1);
+}
+
+const applications = scenario === 'empty' ? [] : [
+    { id: 'usd-viewer', name: 'USD Viewer', description: 'USD Viewer template application', tags: ['viewer'] },
+    { id: 'usd-composer', name: 'USD Composer', description: 'USD Composer application', tags: ['authoring'] }
+];
+
+const versions = scenario === 'no-versions' ? [] : [{ version: '107.3.1' }, { version: '106.5.0' }];
+
+const profiles = scenario === 'no-profiles' ? [] : [
+    { id: 'default', name: 'default', description: 'Single L40 GPU' },
+    { id: 'high', name: 'high', description: 'Dual L40 GPUs' }
+];
+
+// sessionId -> { item, polls }
+const sessions = new Map();
+
+/**
+ * Builds a StreamItem with the signaling and media routes the client connects to.
+ */
+function createStreamItem(id) {
+    return {
+        id: id,
+        routes: {
+            [routeHost]: {
+                routes: [
+                    { description: 'signaling', destination_port: 49100, protocol: 'TCP', source_port: 49100 },
+                    { description: 'media', destination_port: 47998, protocol: 'UDP', source_port: 47998 }
+                ]
+            }
+        }
+    };
+}
+
+/**
+ * Wraps items in the paged response format of the API.
+ */
+function page(items) {
+    return { offset: 0, limit: 100, count: items.length, items: items };
+}
+
+function sendJson(response, status, body) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+function sendError(response, status, detail) {
+    sendJson(response, status, { detail: detail });
+}
+
+async function readJson(request) {
+    let body = '';
+    for await (const chunk of request)
+        body += chunk;
+    try {
+        return body ? JSON.parse(body) : {};
+    }
+    catch {
+        return null;
+    }
+}
+
+/**
+ * Routes a request to the matching endpoint.
+ */
+async function handle(request, response) {
+    const url = new URL(request.url, `http://${request.headers.host}`);
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = request.method;
+
+    // GET /cfg/apps
+    if (method === 'GET' && parts.length === 2 && parts[0] === 'cfg' && parts[1] === 'apps') {
+        if (scenario === 'catalog-5xx')
+            return sendError(response, 500, 'Application catalog is unavailable.');
+        return sendJson(response, 200, page(applications));
+    }
+
+    // GET /cfg/apps/{appId}/versions
+    if (method === 'GET' && parts.length === 4 && parts[0] === 'cfg' && parts[3] === 'versions') {
+        if (!applications.some(app => app.id === parts[2]))
+            return sendError(response, 404, `Application ${parts[2]} not found.`);
+        return sendJson(response, 200, page(versions));
+    }
+
+    // GET /cfg/apps/{appId}/versions/{version}/profiles
+    if (method === 'GET' && parts.length === 6 && parts[0] === 'cfg' && parts[5] === 'profiles') {
+        if (!versions.some(item => item.version === parts[4]))
+            return sendError(response, 404, `Version ${parts[4]} of ${parts[2]} not found.`);
+        return sendJson(response, 200, page(profiles));
+    }
+
+    if (parts[0] !== 'streaming' || parts[1] !== 'stream')
+        return sendError(response, 404, `No route for ${method} ${url.pathname}`);
+
+    // GET /streaming/stream
+    if (method === 'GET' && parts.length === 2)
+        return sendJson(response, 200, page([...sessions.values()].map(session => session.item)));
+
+    // GET /streaming/stream/{sessionId}
+    if (method === 'GET' && parts.length === 3) {
+        const session = sessions.get(parts[2]);
+        if (!session)
+            return sendError(response, 404, `Session ${parts[2]} not found.`);
+        session.polls++;
+        const status = scenario === 'slow' && session.polls <= readyAfter ? 202 : 200;
+        return sendJson(response, status, session.item);
+    }
+
+    // POST /streaming/stream
+    if (method === 'POST' && parts.length === 2) {
+        const payload = await readJson(request);
+        if (!payload || !payload.id || !payload.version || !payload.profile)
+            return sendError(response, 422, 'The request must include id, version and profile.');
+        if (scenario === 'create-4xx')
+            return sendError(response, 403, 'Not allowed to create a streaming session.');
+        if (scenario === 'create-5xx')
+            return sendError(response, 503, 'No GPU capacity available.');
+
+        const item = createStreamItem(randomUUID());
+        sessions.set(item.id, { item: item, polls: 0 });
+        console.info(`Created session ${item.id} for ${payload.id} ${payload.version} (${payload.profile})`);
+        return sendJson(response, scenario === 'slow' ? 202 : 200, item);
+    }
+
+    // DELETE /streaming/stream
+    if (method === 'DELETE' && parts.length === 2) {
+        const payload = await readJson(request);
+        if (scenario === 'destroy-5xx')
+            return sendError(response, 500, 'Failed to destroy the session.');
+        if (!payload || !sessions.delete(payload.id))
+            return sendError(response, 404, `Session ${payload?.id} not found.`);
+        console.info(`Destroyed session ${payload.id}`);
+        response.writeHead(200);
+        return response.end();
+    }
+
+    return sendError(response, 405, `${method} is not supported for ${url.pathname}`);
+}
+
+const server = http.createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204);
+        response.end();
+        return;
+    }
+
+    console.log(`${request.method} ${request.url}`);
+    handle(request, response).catch(error => {
+        console.error(error);
+        sendError(response, 500, String(error));
+    });
+});
+
+server.listen(port, () => {
+    console.info(`Mock streaming server listening on http://localhost:${port} (scenario: ${scenario})`);
+    console.info(`Use http://localhost:${port} as both the App Server and the Stream Server.`);
+});
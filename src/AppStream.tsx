@@ -13,6 +13,8 @@ import React, { Component } from 'react';
 import PropTypes from 'prop-types';
 import { AppStreamer, StreamEvent, StreamProps, DirectConfig, GFNConfig, StreamType } from '@nvidia/omniverse-webrtc-streaming-library';
 import StreamConfig from '../stream.config.json';
+import { kitMessageLog } from './KitMessageLog';
+import MockKitApp, { MockKitOptions, defaultMockKitOptions } from './mock/MockKit';
 
 
 interface AppStreamProps {
@@ -26,6 +28,7 @@ interface AppStreamProps {
     style?: React.CSSProperties;
     onStarted: () => void;
     onStreamFailed: () => void;
+    onTerminated?: () => void;
     onLoggedIn: (userId: string) => void;
     handleCustomEvent: (event: any) => void;
     onFocus: () => void;
@@ -38,6 +41,7 @@ interface AppStreamState {
 
 export default class AppStream extends Component<AppStreamProps, AppStreamState> {
     private _requested: boolean;
+    private static _mockKit: MockKitApp | null = null;
 
     static defaultProps = {
         style: {}
@@ -62,6 +66,11 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
         if (!this._requested) {
             this._requested = true;
 
+            if (StreamConfig.source === 'mock') {
+                this._startMockKit();
+                return;
+            }
+
             let streamProps: StreamProps;
             let streamConfig: DirectConfig | GFNConfig;
             let streamSource: StreamType.DIRECT | StreamType.GFN;
@@ -99,7 +108,7 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
                     onStart: (message: StreamEvent) => this._onStart(message),
                     onCustomEvent: (message: any) => this._onCustomEvent(message),
                     onStop: (message: StreamEvent) => { console.log(message) },
-                    onTerminate: (message: StreamEvent) => { console.log(message) }
+                    onTerminate: (message: StreamEvent) => this._onTerminate(message)
                 };
             }
                 
@@ -127,7 +136,7 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
                     onStart: (message: StreamEvent) => this._onStart(message),
                     onCustomEvent: (message: any) => this._onCustomEvent(message),
                     onStop: (message: StreamEvent) => { console.log(message) },
-                    onTerminate: (message: StreamEvent) => { console.log(message) },
+                    onTerminate: (message: StreamEvent) => this._onTerminate(message),
                 };
             }
                 
@@ -165,10 +174,30 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
     }
 
     static sendMessage(message: any) {
+        kitMessageLog.record("outgoing", message);
+        if (AppStream._mockKit) {
+            AppStream._mockKit.receive(message);
+            return;
+        }
         AppStreamer.sendMessage(message);
     }
 
+    /**
+    * @function _startMockKit
+    *
+    * Answer messages with the local mock Kit application instead of connecting to a stream.
+    */
+    private _startMockKit() {
+        const options: MockKitOptions = { ...defaultMockKitOptions, ...StreamConfig.mock };
+        AppStream._mockKit?.stop();
+        AppStream._mockKit = new MockKitApp((event) => this._onCustomEvent(event), options);
+        console.info('Using the mock Kit application; no stream is connected.');
+        setTimeout(() => this._onStart({ action: 'start', status: 'success' }), options.latency);
+    }
+
     static stop() {
+        AppStream._mockKit?.stop();
+        AppStream._mockKit = null;
         AppStreamer.stop();
         (AppStreamer as any)._stream = null; // Accessing a private member
     }
@@ -200,6 +229,7 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
     }
 
     _onCustomEvent(message: any) {
+        kitMessageLog.record("incoming", message);
         this.props.handleCustomEvent(message);
     }
 
@@ -209,6 +239,7 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
 
     _onTerminate(message: any) {
         console.info('Stream terminated', message);
+        this.props.onTerminated?.();
     }
 
     render() {
@@ -227,6 +258,16 @@ export default class AppStream extends Component<AppStreamProps, AppStreamState>
                     }}
                 />
             );
+        } else if (source === 'mock') {
+            return (
+                <div
+                    id="main-div"
+                    className="mock-stream"
+                    style={{ ...this.props.style }}
+                >
+                    <span>Mock Kit application: no video is streamed.</span>
+                </div>
+            );
         } else if (source === 'local' || source === 'stream') {
             return (
                 <div
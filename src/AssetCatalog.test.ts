@@ -0,0 +1,111 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CatalogAsset, CatalogError, defaultCategory, groupByCategory, loadCatalog, parseCatalog, sampleCatalog, searchCatalog } from './AssetCatalog';
+
+const asset = (name: string, category: string, tags: string[] = [], description = ''): CatalogAsset =>
+    ({ name, url: `./${name}.usd`, description, tags, category, thumbnail: null });
+
+beforeEach(() => {
+    vi.stubGlobal("window", { location: { href: "https://viewer.example.com/app/index.html" } });
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe("parseCatalog", () => {
+    it("reads the entries, with defaults for the optional fields", () => {
+        const assets = parseCatalog({ assets: [
+            { name: "Warehouse", url: "omniverse://server/warehouse.usd", thumbnail: "thumbnails/warehouse.png",
+                description: "Racks", tags: ["logistics", 3], category: "Facilities" },
+            { name: "Cube", url: "./cube.usd" },
+        ] }, "catalog/manifest.json");
+
+        expect(assets).toEqual([
+            { name: "Warehouse", url: "omniverse://server/warehouse.usd", description: "Racks", tags: ["logistics"],
+                category: "Facilities", thumbnail: "https://viewer.example.com/app/catalog/thumbnails/warehouse.png" },
+            { name: "Cube", url: "./cube.usd", description: "", tags: [], category: defaultCategory, thumbnail: null },
+        ]);
+    });
+
+    it("skips entries without a name or url", () => {
+        const assets = parseCatalog({ assets: [{ name: "No URL" }, { url: "./nameless.usd" }, { name: "", url: "./a.usd" }, "text", null,
+            { name: "Kept", url: "./kept.usd" }] }, "manifest.json");
+        expect(assets.map(item => item.name)).toEqual(["Kept"]);
+        expect(console.warn).toHaveBeenCalledTimes(5);
+    });
+
+    it.each([[null], [[]], [{}], [{ assets: {} }]])("throws a CatalogError for %j", (data) => {
+        expect(() => parseCatalog(data, "manifest.json")).toThrow(CatalogError);
+    });
+});
+
+describe("loadCatalog", () => {
+    const respond = (response: Partial<Response>) =>
+        vi.stubGlobal("fetch", vi.fn(() => Promise.resolve({ ok: true, status: 200, ...response })));
+
+    it("fetches and reads the manifest", async () => {
+        respond({ json: () => Promise.resolve({ assets: [{ name: "Cube", url: "./cube.usd" }] }) });
+        await expect(loadCatalog("manifest.json")).resolves.toHaveLength(1);
+    });
+
+    it.each([
+        ["an HTTP error", { ok: false, status: 404 }, /HTTP 404/],
+        ["invalid JSON", { json: () => Promise.reject(new SyntaxError("Unexpected token")) }, /Unexpected token/],
+        ["a manifest without assets", { json: () => Promise.resolve({ assets: [{ name: "No URL" }] }) }, /lists no assets/],
+    ])("rejects with a CatalogError on %s", async (_name, response, message) => {
+        respond(response);
+        const loading = loadCatalog("manifest.json");
+        await expect(loading).rejects.toBeInstanceOf(CatalogError);
+        await expect(loading).rejects.toThrow(message);
+    });
+});
+
+describe("searchCatalog", () => {
+    const assets = [
+        asset("Warehouse", "Facilities", ["logistics"], "Racks and a forklift"),
+        asset("Factory", "Facilities", ["production"]),
+        asset("Car", "Vehicles", ["logistics"]),
+    ];
+
+    it.each([
+        ["", ["Warehouse", "Factory", "Car"]],
+        ["  ", ["Warehouse", "Factory", "Car"]],
+        ["FORK", ["Warehouse"]],
+        ["logistics", ["Warehouse", "Car"]],
+        ["facilities logistics", ["Warehouse"]],
+        ["vehicles production", []],
+    ])("'%s' finds %j", (query, names) => {
+        expect(searchCatalog(assets, query).map(item => item.name)).toEqual(names);
+    });
+});
+
+describe("groupByCategory", () => {
+    it("groups the assets by category in the order the categories appear", () => {
+        const groups = groupByCategory([asset("A", "Two"), asset("B", "One"), asset("C", "Two")]);
+        expect(groups.map(([category, items]) => [category, items.map(item => item.name)])).toEqual([["Two", ["A", "C"]], ["One", ["B"]]]);
+    });
+});
+
+describe("sampleCatalog", () => {
+    it("names the samples by token for streamed Kit applications", () => {
+        expect(sampleCatalog("stream").every(item => item.url.startsWith("${omni.usd_viewer.samples}/"))).toBe(true);
+    });
+
+    it("adds the large and the broken stage for the mock source", () => {
+        expect(sampleCatalog("local")).toHaveLength(2);
+        expect(sampleCatalog("mock").map(item => item.url)).toContain("./samples/broken.usd");
+    });
+});
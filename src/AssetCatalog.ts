@@ -0,0 +1,163 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * The stages offered by the USD Asset picker. They are read from a catalog manifest
+ * published next to the web app, so stages can be added without rebuilding it:
+ *
+ *     { "assets": [{ "name": "Warehouse", "url": "omniverse://server/warehouse.usd",
+ *                    "thumbnail": "thumbnails/warehouse.png", "description": "...",
+ *                    "tags": ["logistics"], "category": "Facilities" }] }
+ *
+ * Only `name` and `url` are required. Relative thumbnail URLs are resolved against the manifest.
+ */
+import { USDAssetType } from './StageLifecycle';
+
+export interface CatalogAsset extends USDAssetType {
+    description: string;
+    tags: string[];
+    category: string;
+    // absolute URL of a preview image, null if the manifest has none
+    thumbnail: string | null;
+}
+
+// Category of assets the manifest does not put in one
+export const defaultCategory = "Other";
+
+export class CatalogError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CatalogError";
+    }
+}
+
+/**
+ * @function sampleCatalog
+ *
+ * The sample stages listed when no catalog manifest is configured, or it cannot be loaded.
+ * Kit applications from a stream reference them by token, local ones by relative path.
+ */
+export function sampleCatalog(source: string): CatalogAsset[] {
+    const sample = (name: string, url: string, description: string): CatalogAsset =>
+        ({ name, url, description, tags: [], category: "Samples", thumbnail: null });
+
+    const samples = source === "stream"
+        ? [
+            sample("Sample 1", "${omni.usd_viewer.samples}/samples_data/stage01.usd", "Warehouse with racks and a forklift"),
+            sample("Sample 2", "${omni.usd_viewer.samples}/samples_data/stage02.usd", "Primitive shapes on a ground plane"),
+        ]
+        : [
+            sample("Sample 1", "./samples/stage01.usd", "Warehouse with racks and a forklift"),
+            sample("Sample 2", "./samples/stage02.usd", "Primitive shapes on a ground plane"),
+        ];
+    // the mock Kit application also serves a large stage, and one that fails to load
+    if (source === "mock") {
+        samples.push(sample("Factory (100k prims)", "./samples/factory.usd", "Production hall for trying large stages"));
+        samples.push(sample("Broken stage", "./samples/broken.usd", "Fails partway through loading, for trying the error handling"));
+    }
+    return samples;
+}
+
+/**
+ * @function parseCatalog
+ *
+ * Reads the assets of a catalog manifest. Entries without a name or url are reported and
+ * skipped; a manifest without an `assets` array throws a CatalogError.
+ */
+export function parseCatalog(data: unknown, manifestUrl: string): CatalogAsset[] {
+    const entries = typeof data === "object" && data !== null ? (data as { assets?: unknown }).assets : undefined;
+    if (!Array.isArray(entries))
+        throw new CatalogError("The catalog manifest has no 'assets' array.");
+
+    const assets: CatalogAsset[] = [];
+    entries.forEach((entry: unknown, index) => {
+        const item = (typeof entry === "object" && entry !== null ? entry : {}) as Record<string, unknown>;
+        if (typeof item.name !== "string" || !item.name || typeof item.url !== "string" || !item.url) {
+            console.warn(`Catalog entry ${index} needs a 'name' and a 'url'; skipping it.`, entry);
+            return;
+        }
+        let thumbnail: string | null = null;
+        if (typeof item.thumbnail === "string" && item.thumbnail) {
+            try {
+                thumbnail = new URL(item.thumbnail, new URL(manifestUrl, window.location.href)).href;
+            }
+            catch {
+                console.warn(`Catalog entry '${item.name}' has an invalid thumbnail URL.`);
+            }
+        }
+        assets.push({
+            name: item.name,
+            url: item.url,
+            description: typeof item.description === "string" ? item.description : '',
+            tags: Array.isArray(item.tags) ? item.tags.filter((tag): tag is string => typeof tag === "string") : [],
+            category: typeof item.category === "string" && item.category ? item.category : defaultCategory,
+            thumbnail
+        });
+    });
+    return assets;
+}
+
+/**
+ * @function loadCatalog
+ *
+ * Fetch and read a catalog manifest. Rejects with a CatalogError if it cannot be loaded or
+ * lists no assets.
+ */
+export async function loadCatalog(manifestUrl: string, signal?: AbortSignal): Promise<CatalogAsset[]> {
+    let data: unknown;
+    try {
+        const response = await fetch(manifestUrl, { signal, cache: "no-cache" });
+        if (!response.ok)
+            throw new CatalogError(`${manifestUrl} answered with HTTP ${response.status}.`);
+        data = await response.json();
+    }
+    catch (error) {
+        if (error instanceof CatalogError || signal?.aborted)
+            throw error;
+        throw new CatalogError(`Could not read ${manifestUrl}: ${(error as Error).message}`);
+    }
+
+    const assets = parseCatalog(data, manifestUrl);
+    if (assets.length === 0)
+        throw new CatalogError("The catalog manifest lists no assets.");
+    return assets;
+}
+
+/**
+ * @function searchCatalog
+ *
+ * The assets whose name, description, category or tags contain every word of the query.
+ */
+export function searchCatalog(assets: CatalogAsset[], query: string): CatalogAsset[] {
+    const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0)
+        return assets;
+    return assets.filter(asset => {
+        const text = [asset.name, asset.description, asset.category, ...asset.tags].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+    });
+}
+
+/**
+ * @function groupByCategory
+ *
+ * Assets by category, with categories in the order they first appear.
+ */
+export function groupByCategory(assets: CatalogAsset[]): [string, CatalogAsset[]][] {
+    const groups = new Map<string, CatalogAsset[]>();
+    for (const asset of assets) {
+        const group = groups.get(asset.category) ?? [];
+        group.push(asset);
+        groups.set(asset.category, group);
+    }
+    return Array.from(groups.entries());
+}
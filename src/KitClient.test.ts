@@ -0,0 +1,174 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import KitClient, { KitRequestError } from './KitClient';
+import { KitEvent, KitEventOf, KitRequest } from './Protocol';
+
+const children = (prim_path: string): KitEventOf<"getChildrenResponse"> =>
+    ({ event_type: "getChildrenResponse", payload: { prim_path, children: [{ path: `${prim_path}/Child` }] } });
+
+const loadingState = (url: string): KitEventOf<"loadingStateResponse"> =>
+    ({ event_type: "loadingStateResponse", payload: { url, loading_state: "idle" } });
+
+const stageInfo = (url: string): KitEventOf<"stageInfoResponse"> =>
+    ({ event_type: "stageInfoResponse", payload: { url, default_prim_path: "", root_prims: [] } });
+
+describe("KitClient", () => {
+    let sent: KitRequest[];
+    let kit: KitClient;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        sent = [];
+        kit = new KitClient(message => sent.push(message));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("sends the request to Kit", () => {
+        void kit.request("getChildrenRequest", { prim_path: "/World", filters: [] });
+        expect(sent).toEqual([{ event_type: "getChildrenRequest", payload: { prim_path: "/World", filters: [] } }]);
+    });
+
+    it("matches responses by key when they arrive out of order", async () => {
+        const world = kit.request("getChildrenRequest", { prim_path: "/World", filters: [] });
+        const looks = kit.request("getChildrenRequest", { prim_path: "/Looks", filters: [] });
+
+        expect(kit.handleEvent(children("/Looks"))).toBe(true);
+        expect(kit.handleEvent(children("/World"))).toBe(true);
+
+        await expect(world).resolves.toEqual(children("/World").payload);
+        await expect(looks).resolves.toEqual(children("/Looks").payload);
+    });
+
+    it("answers requests with the same key in the order they were sent", async () => {
+        const first = kit.request("openStageRequest", { url: "./stage.usd" });
+        const second = kit.request("openStageRequest", { url: "./stage.usd" });
+        const answered: string[] = [];
+        void first.then(() => answered.push("first"));
+        void second.then(() => answered.push("second"));
+
+        kit.handleEvent({ event_type: "openedStageResult", payload: { url: "./stage.usd", result: "success" } });
+        await first;
+        expect(answered).toEqual(["first"]);
+
+        kit.handleEvent({ event_type: "openedStageResult", payload: { url: "./stage.usd", result: "error" } });
+        await second;
+        expect(answered).toEqual(["first", "second"]);
+    });
+
+    const unkeyed: ["loadingStateQuery" | "stageInfoQuery" | "showAllPrimsRequest", KitEvent, KitEvent][] = [
+        ["loadingStateQuery", loadingState("./a.usd"), loadingState("./b.usd")],
+        ["stageInfoQuery", stageInfo("./a.usd"), stageInfo("./b.usd")],
+        ["showAllPrimsRequest",
+            { event_type: "showAllPrimsResponse", payload: { result: "success" } },
+            { event_type: "showAllPrimsResponse", payload: { result: "error", error: "Failed" } }],
+    ];
+
+    it.each(unkeyed)("answers the oldest %s with any response", async (eventType, firstResponse, secondResponse) => {
+        const first = kit.request(eventType, {});
+        const second = kit.request(eventType, {});
+
+        kit.handleEvent(firstResponse);
+        kit.handleEvent(secondResponse);
+
+        await expect(first).resolves.toEqual(firstResponse.payload);
+        await expect(second).resolves.toEqual(secondResponse.payload);
+    });
+
+    it("holds back a request whose response could be taken for a pending one's", async () => {
+        const tree = kit.request("getChildrenRequest", { prim_path: "/World", filters: ["Mesh"] });
+        const walk = kit.request("getChildrenRequest", { prim_path: "/World", filters: [] });
+        const looks = kit.request("getChildrenRequest", { prim_path: "/Looks", filters: [] });
+        expect(sent.map(message => message.payload)).toEqual([
+            { prim_path: "/World", filters: ["Mesh"] },
+            { prim_path: "/Looks", filters: [] },
+        ]);
+
+        kit.handleEvent(children("/World"));
+        await expect(tree).resolves.toEqual(children("/World").payload);
+        expect(sent[2]).toEqual({ event_type: "getChildrenRequest", payload: { prim_path: "/World", filters: [] } });
+
+        kit.handleEvent(children("/World"));
+        kit.handleEvent(children("/Looks"));
+        await expect(walk).resolves.toEqual(children("/World").payload);
+        await expect(looks).resolves.toEqual(children("/Looks").payload);
+    });
+
+    it("starts the timeout of a held request once it is sent", async () => {
+        void kit.request("getChildrenRequest", { prim_path: "/World", filters: ["Mesh"] }, { timeout: 0 });
+        const walk = kit.request("getChildrenRequest", { prim_path: "/World", filters: [] }, { timeout: 500 });
+        await vi.advanceTimersByTimeAsync(1000);
+
+        kit.handleEvent(children("/World"));
+        const rejected = expect(walk).rejects.toMatchObject({ reason: "timeout" });
+        await vi.advanceTimersByTimeAsync(500);
+        await rejected;
+    });
+
+    it("does not consume events no request is waiting for", () => {
+        void kit.request("getChildrenRequest", { prim_path: "/World", filters: [] });
+        expect(kit.handleEvent(children("/Looks"))).toBe(false);
+        expect(kit.handleEvent(loadingState("./a.usd"))).toBe(false);
+    });
+
+    it("rejects a request Kit does not answer in time", async () => {
+        const request = kit.request("loadingStateQuery", {}, { timeout: 500 });
+        const rejected = expect(request).rejects.toMatchObject({ reason: "timeout", eventType: "loadingStateQuery" });
+
+        await vi.advanceTimersByTimeAsync(500);
+        await rejected;
+        // a late response is not taken as the answer to a newer request
+        expect(kit.handleEvent(loadingState("./a.usd"))).toBe(false);
+    });
+
+    it("waits indefinitely with a timeout of 0", async () => {
+        const request = kit.request("loadingStateQuery", {}, { timeout: 0 });
+        await vi.advanceTimersByTimeAsync(60000);
+
+        kit.handleEvent(loadingState("./a.usd"));
+        await expect(request).resolves.toEqual(loadingState("./a.usd").payload);
+    });
+
+    it("rejects an aborted request and forgets it", async () => {
+        const abort = new AbortController();
+        const request = kit.request("loadingStateQuery", {}, { signal: abort.signal });
+
+        abort.abort();
+        await expect(request).rejects.toMatchObject({ reason: "aborted" });
+        expect(kit.handleEvent(loadingState("./a.usd"))).toBe(false);
+    });
+
+    it("does not send a request whose signal is already aborted", async () => {
+        const abort = new AbortController();
+        abort.abort();
+
+        await expect(kit.request("loadingStateQuery", {}, { signal: abort.signal })).rejects.toMatchObject({ reason: "aborted" });
+        expect(sent).toEqual([]);
+    });
+
+    it("rejects every pending request when closed, and every request after", async () => {
+        const world = kit.request("getChildrenRequest", { prim_path: "/World", filters: [] });
+        const state = kit.request("loadingStateQuery", {});
+
+        kit.close();
+
+        await expect(world).rejects.toMatchObject({ reason: "closed", eventType: "getChildrenRequest" });
+        await expect(state).rejects.toMatchObject({ reason: "closed", eventType: "loadingStateQuery" });
+        await expect(kit.request("loadingStateQuery", {})).rejects.toBeInstanceOf(KitRequestError);
+        await expect(kit.request("loadingStateQuery", {})).rejects.toMatchObject({ reason: "closed" });
+        expect(sent).toHaveLength(2);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+});
@@ -0,0 +1,285 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import {
+    KitEvent,
+    KitEventPayloads,
+    KitQueryType,
+    KitRequest,
+    KitRequestPayloads,
+    KitRequestType,
+    KitResponsePayload,
+    KitResponseTypes,
+    createKitRequest
+} from './Protocol';
+
+export type KitRequestErrorReason = "timeout" | "closed" | "aborted";
+
+export class KitRequestError extends Error {
+    readonly reason: KitRequestErrorReason;
+    readonly eventType: KitRequestType;
+
+    constructor(eventType: KitRequestType, reason: KitRequestErrorReason, message: string) {
+        super(message);
+        this.name = "KitRequestError";
+        this.eventType = eventType;
+        this.reason = reason;
+    }
+}
+
+export interface KitRequestOptions {
+    // Milliseconds to wait for the response once the request is sent. 0 waits indefinitely.
+    timeout?: number;
+    // Rejects the request when aborted
+    signal?: AbortSignal;
+}
+
+interface ResponseMatcher<K extends KitQueryType> {
+    responseType: KitResponseTypes[K];
+    matches: (request: KitRequestPayloads[K], response: KitEventPayloads[KitResponseTypes[K]]) => boolean;
+    // True if the request has the key of another request but asks for something else, so their responses
+    // cannot be told apart. Such a request is only sent once the other one is answered.
+    conflicts?: (request: KitRequestPayloads[K], other: KitRequestPayloads[K]) => boolean;
+}
+
+/*
+ * Kit does not echo a request id, so responses are correlated by the key the
+ * response carries. Requests with the same key are answered in the order they were sent.
+ */
+const responseMatchers: { [K in KitQueryType]: ResponseMatcher<K> } = {
+    openStageRequest: {
+        responseType: "openedStageResult",
+        matches: (request, response) => request.url === response.url
+    },
+    validateStageUrlRequest: {
+        responseType: "validateStageUrlResponse",
+        matches: (request, response) => request.url === response.url
+    },
+    getChildrenRequest: {
+        responseType: "getChildrenResponse",
+        matches: (request, response) => request.prim_path === response.prim_path,
+        // the response does not say which prim types it lists
+        conflicts: (request, other) => request.prim_path === other.prim_path && request.filters.join() !== other.filters.join()
+    },
+    loadingStateQuery: {
+        responseType: "loadingStateResponse",
+        matches: () => true
+    },
+    stageInfoQuery: {
+        responseType: "stageInfoResponse",
+        matches: () => true
+    },
+    getPrimPropertiesRequest: {
+        responseType: "getPrimPropertiesResponse",
+        matches: (request, response) => request.prim_path === response.prim_path
+    },
+    setPrimAttributeRequest: {
+        responseType: "setPrimAttributeResponse",
+        matches: (request, response) => request.prim_path === response.prim_path && request.attribute === response.attribute
+    },
+    searchPrimsRequest: {
+        responseType: "searchPrimsResponse",
+        matches: (request, response) => request.query === response.query && request.types.join() === response.types.join()
+    },
+    setPrimVisibilityRequest: {
+        responseType: "setPrimVisibilityResponse",
+        matches: (request, response) => request.paths.join() === response.paths.join() && request.visible === response.visible
+    },
+    isolatePrimsRequest: {
+        responseType: "isolatePrimsResponse",
+        matches: (request, response) => request.paths.join() === response.paths.join()
+    },
+    showAllPrimsRequest: {
+        responseType: "showAllPrimsResponse",
+        matches: () => true
+    },
+    framePrimsRequest: {
+        responseType: "framePrimsResponse",
+        matches: (request, response) => request.paths.join() === response.paths.join()
+    },
+    getVariantSetsRequest: {
+        responseType: "getVariantSetsResponse",
+        matches: (request, response) => request.prim_path === response.prim_path
+    },
+    setVariantSelectionRequest: {
+        responseType: "setVariantSelectionResponse",
+        matches: (request, response) => request.prim_path === response.prim_path && request.variant_set === response.variant_set
+    },
+    beginUploadRequest: {
+        responseType: "beginUploadResponse",
+        matches: (request, response) => request.upload_id === response.upload_id
+    },
+    uploadChunkRequest: {
+        responseType: "uploadChunkResponse",
+        matches: (request, response) => request.upload_id === response.upload_id && request.index === response.index
+    },
+    finishUploadRequest: {
+        responseType: "finishUploadResponse",
+        matches: (request, response) => request.upload_id === response.upload_id
+    },
+};
+
+interface PendingRequest {
+    id: number;
+    eventType: KitQueryType;
+    responseType: string;
+    matches: (response: unknown) => boolean;
+    conflicts: (other: PendingRequest) => boolean;
+    payload: unknown;
+    // false while the request waits for a conflicting one to be answered
+    sent: boolean;
+    send: () => void;
+    resolve: (response: unknown) => void;
+    reject: (error: KitRequestError) => void;
+    timer?: ReturnType<typeof setTimeout>;
+    cleanup?: () => void;
+}
+
+export const defaultRequestTimeout = 10000;
+
+/**
+ * Sends messages to Kit and resolves requests with the response Kit sends back.
+ */
+export default class KitClient {
+    private _send: (message: KitRequest) => void;
+    private _pending: PendingRequest[] = [];
+    private _nextId = 1;
+    private _closed = false;
+
+    constructor(send: (message: KitRequest) => void) {
+        this._send = send;
+    }
+
+    /**
+    * @function send
+    *
+    * Sends a message to Kit without waiting for a response.
+    */
+    public send<K extends KitRequestType>(eventType: K, payload: KitRequestPayloads[K]): void {
+        this._send(createKitRequest(eventType, payload));
+    }
+
+    /**
+    * @function request
+    *
+    * Sends a message to Kit and returns a promise for the payload of the matching response.
+    * The promise is rejected with a KitRequestError on timeout, when the signal is aborted
+    * or when the client is closed. A request whose response could be taken for the response
+    * to a pending request is sent once that one is answered.
+    */
+    public request<K extends KitQueryType>(
+        eventType: K,
+        payload: KitRequestPayloads[K],
+        options: KitRequestOptions = {}
+    ): Promise<KitResponsePayload<K>> {
+        if (this._closed)
+            return Promise.reject(new KitRequestError(eventType, "closed", `Cannot send ${eventType}: the Kit client is closed.`));
+        if (options.signal?.aborted)
+            return Promise.reject(new KitRequestError(eventType, "aborted", `${eventType} was aborted.`));
+
+        const matcher = responseMatchers[eventType] as ResponseMatcher<K>;
+        const timeout = options.timeout ?? defaultRequestTimeout;
+
+        const promise = new Promise<KitResponsePayload<K>>((resolve, reject) => {
+            const pending: PendingRequest = {
+                id: this._nextId++,
+                eventType: eventType,
+                responseType: matcher.responseType,
+                matches: (response) => matcher.matches(payload, response as KitResponsePayload<K>),
+                conflicts: (other) =>
+                    other.eventType === eventType && !!matcher.conflicts?.(payload, other.payload as KitRequestPayloads[K]),
+                payload: payload,
+                sent: false,
+                send: () => {
+                    pending.sent = true;
+                    if (timeout > 0) {
+                        pending.timer = setTimeout(() => {
+                            this._remove(pending);
+                            reject(new KitRequestError(eventType, "timeout", `Kit did not answer ${eventType} within ${timeout} ms.`));
+                        }, timeout);
+                    }
+                    this.send(eventType, payload);
+                },
+                resolve: (response) => resolve(response as KitResponsePayload<K>),
+                reject: reject
+            };
+            if (options.signal) {
+                const signal = options.signal;
+                const onAbort = () => {
+                    this._remove(pending);
+                    reject(new KitRequestError(eventType, "aborted", `${eventType} was aborted.`));
+                };
+                signal.addEventListener("abort", onAbort, { once: true });
+                pending.cleanup = () => signal.removeEventListener("abort", onAbort);
+            }
+            this._pending.push(pending);
+        });
+
+        this._sendReady();
+        return promise;
+    }
+
+    /**
+    * @function handleEvent
+    *
+    * Resolves the oldest pending request matching the event.
+    * Returns true if the event was consumed as a response.
+    */
+    public handleEvent(event: KitEvent): boolean {
+        const pending = this._pending.find(item => item.sent && item.responseType === event.event_type && item.matches(event.payload));
+        if (!pending)
+            return false;
+
+        this._remove(pending);
+        pending.resolve(event.payload);
+        return true;
+    }
+
+    /**
+    * @function close
+    *
+    * Rejects all pending requests. Called when the stream is torn down.
+    */
+    public close(): void {
+        this._closed = true;
+        const pending = this._pending;
+        this._pending = [];
+        pending.forEach(item => {
+            clearTimeout(item.timer);
+            item.cleanup?.();
+            item.reject(new KitRequestError(item.eventType, "closed", `${item.eventType} was cancelled because the stream ended.`));
+        });
+    }
+
+    /**
+    * @function _remove
+    *
+    * Stops tracking a pending request.
+    */
+    private _remove(pending: PendingRequest): void {
+        clearTimeout(pending.timer);
+        pending.cleanup?.();
+        this._pending = this._pending.filter(item => item.id !== pending.id);
+        this._sendReady();
+    }
+
+    /**
+    * @function _sendReady
+    *
+    * Sends the requests that no conflicting request is ahead of.
+    */
+    private _sendReady(): void {
+        this._pending.forEach((pending, index) => {
+            if (!pending.sent && !this._pending.slice(0, index).some(other => pending.conflicts(other)))
+                pending.send();
+        });
+    }
+}
@@ -0,0 +1,116 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { KitEventRegistry, anyEvent } from './KitEvents';
+
+const custom = { event_type: "customEvent", payload: { value: 1 } };
+const other = { event_type: "otherEvent", payload: {} };
+
+describe("KitEventRegistry", () => {
+    let events: KitEventRegistry;
+
+    beforeEach(() => {
+        events = new KitEventRegistry();
+    });
+
+    it("calls the handlers of the event type in subscription order", () => {
+        const calls: string[] = [];
+        events.on("customEvent", () => calls.push("first"));
+        events.on("customEvent", () => calls.push("second"));
+        events.on("otherEvent", () => calls.push("other"));
+
+        events.dispatch(custom);
+        expect(calls).toEqual(["first", "second"]);
+    });
+
+    it("calls wildcard handlers for every event, after the handlers of the event type", () => {
+        const calls: string[] = [];
+        events.on(anyEvent, (event) => calls.push(`* ${event.event_type}`));
+        events.on("customEvent", () => calls.push("customEvent"));
+
+        events.dispatch(custom);
+        events.dispatch(other);
+        expect(calls).toEqual(["customEvent", "* customEvent", "* otherEvent"]);
+    });
+
+    it("passes the event as it was dispatched", () => {
+        const handler = vi.fn();
+        events.on("customEvent", handler);
+
+        events.dispatch(custom);
+        expect(handler).toHaveBeenCalledWith(custom);
+    });
+
+    it("calls once handlers for the first matching event only", () => {
+        const handler = vi.fn();
+        const wildcard = vi.fn();
+        events.once("customEvent", handler);
+        events.once(anyEvent, wildcard);
+
+        events.dispatch(other);
+        events.dispatch(custom);
+        events.dispatch(custom);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(wildcard).toHaveBeenCalledTimes(1);
+        expect(wildcard).toHaveBeenCalledWith(other);
+        expect(events.hasHandlers("customEvent")).toBe(false);
+    });
+
+    it("removes a once handler even if it dispatches the same event again", () => {
+        const handler = vi.fn(() => events.dispatch(custom));
+        events.once("customEvent", handler);
+
+        events.dispatch(custom);
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("unsubscribes with off or with the returned function", () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        events.on("customEvent", first);
+        const unsubscribe = events.on("customEvent", second);
+
+        events.off("customEvent", first);
+        unsubscribe();
+        events.dispatch(custom);
+        expect(first).not.toHaveBeenCalled();
+        expect(second).not.toHaveBeenCalled();
+        expect(events.hasHandlers("customEvent")).toBe(false);
+    });
+
+    it("only removes the handler from the event type it is given", () => {
+        const handler = vi.fn();
+        events.on("customEvent", handler);
+        events.on(anyEvent, handler);
+
+        events.off(anyEvent, handler);
+        events.dispatch(custom);
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not count wildcard handlers as handlers of an event type", () => {
+        events.on(anyEvent, vi.fn());
+        expect(events.hasHandlers("customEvent")).toBe(false);
+    });
+
+    it("keeps calling handlers after one throws", () => {
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+        const handler = vi.fn();
+        events.on("customEvent", () => { throw new Error("Failed"); });
+        events.on(anyEvent, handler);
+
+        events.dispatch(custom);
+        expect(handler).toHaveBeenCalledWith(custom);
+        expect(error).toHaveBeenCalled();
+        error.mockRestore();
+    });
+});
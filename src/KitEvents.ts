@@ -0,0 +1,125 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { KitEventOf, KitEventType, KitMessage } from './Protocol';
+
+/*
+ * Registry of handlers for messages received from Kit.
+ *
+ * Both Window and StreamOnlyWindow dispatch every inbound message through the shared
+ * `kitEvents` registry, so app-specific behavior can be added from outside the core files:
+ *
+ *     const unsubscribe = kitEvents.on("myEvent", (event) => console.log(event.payload));
+ */
+
+export const anyEvent = "*";
+
+export type KitEventHandler<E extends KitMessage = KitMessage> = (event: E) => void;
+
+interface Subscription {
+    handler: KitEventHandler;
+    once: boolean;
+}
+
+export class KitEventRegistry {
+    private _handlers = new Map<string, Subscription[]>();
+
+    /**
+    * @function on
+    *
+    * Subscribes a handler to an event type, or to every event with `anyEvent`.
+    * Returns a function that unsubscribes the handler.
+    */
+    public on<K extends KitEventType>(eventType: K, handler: KitEventHandler<KitEventOf<K>>): () => void;
+    public on(eventType: string, handler: KitEventHandler): () => void;
+    public on(eventType: string, handler: KitEventHandler<never>): () => void {
+        return this._subscribe(eventType, handler as KitEventHandler, false);
+    }
+
+    /**
+    * @function once
+    *
+    * Subscribes a handler that is removed after the first matching event.
+    */
+    public once<K extends KitEventType>(eventType: K, handler: KitEventHandler<KitEventOf<K>>): () => void;
+    public once(eventType: string, handler: KitEventHandler): () => void;
+    public once(eventType: string, handler: KitEventHandler<never>): () => void {
+        return this._subscribe(eventType, handler as KitEventHandler, true);
+    }
+
+    /**
+    * @function off
+    *
+    * Unsubscribes a handler from an event type.
+    */
+    public off(eventType: string, handler: KitEventHandler<never>): void {
+        this._remove(eventType, subscription => subscription.handler === handler);
+    }
+
+    /**
+    * @function hasHandlers
+    *
+    * True if a handler is subscribed to the event type itself; wildcard handlers are not counted.
+    */
+    public hasHandlers(eventType: string): boolean {
+        return this._handlers.has(eventType);
+    }
+
+    /**
+    * @function dispatch
+    *
+    * Calls the handlers of the event type followed by the wildcard handlers.
+    * A handler that throws is reported and does not prevent the others from running.
+    */
+    public dispatch(event: KitMessage): void {
+        const subscriptions = [
+            ...(this._handlers.get(event.event_type) ?? []).map(subscription => ({ eventType: event.event_type, subscription })),
+            ...(this._handlers.get(anyEvent) ?? []).map(subscription => ({ eventType: anyEvent, subscription }))
+        ];
+
+        for (const { eventType, subscription } of subscriptions) {
+            if (subscription.once)
+                this._remove(eventType, item => item === subscription);
+            try {
+                subscription.handler(event);
+            }
+            catch (error) {
+                console.error(`Handler for '${event.event_type}' failed:`, error);
+            }
+        }
+    }
+
+    /**
+    * @function _subscribe
+    *
+    * Adds a subscription.
+    */
+    private _subscribe(eventType: string, handler: KitEventHandler, once: boolean): () => void {
+        const subscription: Subscription = { handler, once };
+        this._handlers.set(eventType, [...(this._handlers.get(eventType) ?? []), subscription]);
+        return () => this._remove(eventType, item => item === subscription);
+    }
+
+    /**
+    * @function _remove
+    *
+    * Removes the subscriptions of an event type that match the predicate.
+    */
+    private _remove(eventType: string, predicate: (subscription: Subscription) => boolean): void {
+        const remaining = (this._handlers.get(eventType) ?? []).filter(subscription => !predicate(subscription));
+        if (remaining.length > 0)
+            this._handlers.set(eventType, remaining);
+        else
+            this._handlers.delete(eventType);
+    }
+}
+
+export const kitEvents = new KitEventRegistry();
@@ -0,0 +1,205 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import React from 'react';
+import './App.css';
+import './KitInspector.css';
+import AppStream from './AppStream';
+import { KitMessageDirection, KitMessageLogEntry, kitMessageLog } from './KitMessageLog';
+
+
+interface KitInspectorState {
+    isOpen: boolean;
+    entries: readonly KitMessageLogEntry[];
+    filterText: string;
+    directionFilter: KitMessageDirection | "all";
+    expandedIds: Set<number>;
+    composeText: string;
+    composeError: string;
+}
+
+const composeTemplate = JSON.stringify({ event_type: "loadingStateQuery", payload: {} }, null, 4);
+
+/**
+ * Toggleable panel listing the custom messages exchanged with Kit.
+ * Messages can be composed and sent to Kit, and any logged message can be re-sent.
+ */
+export default class KitInspector extends React.Component<object, KitInspectorState> {
+    private _unsubscribe: (() => void) | null = null;
+
+    constructor(props: object) {
+        super(props);
+        this.state = {
+            isOpen: false,
+            entries: kitMessageLog.entries,
+            filterText: '',
+            directionFilter: "all",
+            expandedIds: new Set<number>(),
+            composeText: composeTemplate,
+            composeError: ''
+        };
+    }
+
+    componentDidMount() {
+        this._unsubscribe = kitMessageLog.subscribe((entries) => this.setState({ entries }));
+    }
+
+    componentWillUnmount() {
+        this._unsubscribe?.();
+        this._unsubscribe = null;
+    }
+
+    /**
+    * @function _toggleExpanded
+    *
+    * Show or hide the payload of a log entry.
+    */
+    private _toggleExpanded (id: number): void {
+        this.setState(prevState => {
+            const expandedIds = new Set(prevState.expandedIds);
+            if (expandedIds.has(id))
+                expandedIds.delete(id);
+            else
+                expandedIds.add(id);
+            return { expandedIds };
+        });
+    }
+
+    /**
+    * @function _send
+    *
+    * Send the composed JSON to Kit.
+    */
+    private _send (): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(this.state.composeText);
+        }
+        catch (error) {
+            this.setState({ composeError: `Invalid JSON: ${(error as Error).message}` });
+            return;
+        }
+        this.setState({ composeError: '' });
+        AppStream.sendMessage(JSON.stringify(message));
+    }
+
+    /**
+    * @function _resend
+    *
+    * Send a message logged as sent to Kit again.
+    */
+    private _resend (entry: KitMessageLogEntry): void {
+        if (entry.direction !== "outgoing" || entry.truncated)
+            return;
+        const message = typeof entry.message === "string" ? entry.message : JSON.stringify(entry.message);
+        AppStream.sendMessage(message);
+    }
+
+    /**
+    * @function _getFilteredEntries
+    *
+    * Entries matching the direction and text filters, newest first.
+    */
+    private _getFilteredEntries (): KitMessageLogEntry[] {
+        const filterText = this.state.filterText.trim().toLowerCase();
+        return this.state.entries
+            .filter(entry => this.state.directionFilter === "all" || entry.direction === this.state.directionFilter)
+            .filter(entry => !filterText
+                || entry.eventType.toLowerCase().includes(filterText)
+                || JSON.stringify(entry.message).toLowerCase().includes(filterText))
+            .reverse();
+    }
+
+    /**
+    * @function _renderEntry
+    *
+    * Render a single log entry.
+    */
+    private _renderEntry (entry: KitMessageLogEntry): JSX.Element {
+        const isExpanded = this.state.expandedIds.has(entry.id);
+        const time = entry.timestamp.toLocaleTimeString([], { hour12: false }) + '.' + String(entry.timestamp.getMilliseconds()).padStart(3, '0');
+
+        return (
+            <li key={entry.id} className={`kitInspectorEntry ${entry.direction}`}>
+                <div className="kitInspectorEntryHeader" onClick={() => this._toggleExpanded(entry.id)}>
+                    <span className="kitInspectorTime">{time}</span>
+                    <span className="kitInspectorDirection" title={entry.direction}>{entry.direction === "outgoing" ? '→' : '←'}</span>
+                    <span className="kitInspectorEventType">{entry.eventType}</span>
+                    {entry.direction === "outgoing" &&
+                        <button
+                            className="kitInspectorResend"
+                            disabled={entry.truncated}
+                            title={entry.truncated ? 'Only part of this message was logged' : undefined}
+                            onClick={(e) => { e.stopPropagation(); this._resend(entry); }}>
+                            Resend
+                        </button>
+                    }
+                </div>
+                {isExpanded &&
+                    <pre className="kitInspectorPayload">{JSON.stringify(entry.message, null, 2)}</pre>
+                }
+            </li>
+        );
+    }
+
+    render() {
+        if (!this.state.isOpen) {
+            return (
+                <button className="nvidia-button kitInspectorToggle" onClick={() => this.setState({ isOpen: true })}>
+                    Message Inspector
+                </button>
+            );
+        }
+
+        const entries = this._getFilteredEntries();
+        return (
+            <div className="kitInspectorContainer">
+                <div className="kitInspectorHeader">
+                    {'Message Inspector'}
+                    <button className="nvidia-button" onClick={() => kitMessageLog.clear()}>Clear</button>
+                    <button className="nvidia-button" onClick={() => this.setState({ isOpen: false })}>Close</button>
+                </div>
+                <div className="kitInspectorFilters">
+                    <input
+                        className="form-control form-control-sm"
+                        type="search"
+                        placeholder="Filter by event type or payload"
+                        value={this.state.filterText}
+                        onChange={(e) => this.setState({ filterText: e.target.value })}
+                    />
+                    <select
+                        className="form-select form-select-sm"
+                        value={this.state.directionFilter}
+                        onChange={(e) => this.setState({ directionFilter: e.target.value as KitInspectorState["directionFilter"] })}
+                    >
+                        <option value="all">All</option>
+                        <option value="incoming">Incoming</option>
+                        <option value="outgoing">Outgoing</option>
+                    </select>
+                </div>
+                <ul className="kitInspectorList">
+                    {entries.map(entry => this._renderEntry(entry))}
+                </ul>
+                <div className="kitInspectorCompose">
+                    <textarea
+                        className="form-control form-control-sm"
+                        rows={4}
+                        spellCheck={false}
+                        value={this.state.composeText}
+                        onChange={(e) => this.setState({ composeText: e.target.value })}
+                    />
+                    {this.state.composeError && <div className="kitInspectorError">{this.state.composeError}</div>}
+                    <button className="nvidia-button" onClick={() => this._send()}>Send to Kit</button>
+                </div>
+            </div>
+        );
+    }
+}
@@ -0,0 +1,111 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+export type KitMessageDirection = "outgoing" | "incoming";
+
+export interface KitMessageLogEntry {
+    id: number;
+    timestamp: Date;
+    direction: KitMessageDirection;
+    eventType: string;
+    message: unknown;
+    // true if part of the message was left out of the log, so it cannot be sent again
+    truncated: boolean;
+}
+
+export type KitMessageLogListener = (entries: readonly KitMessageLogEntry[]) => void;
+
+export const maxLogEntries = 1000;
+
+/**
+ * Bounded log of the custom messages exchanged with Kit, read by the KitInspector.
+ */
+export class KitMessageLog {
+    private _entries: KitMessageLogEntry[] = [];
+    private _listeners = new Set<KitMessageLogListener>();
+    private _nextId = 1;
+
+    /**
+    * @function entries
+    *
+    * The logged messages, oldest first.
+    */
+    public get entries(): readonly KitMessageLogEntry[] {
+        return this._entries;
+    }
+
+    /**
+    * @function record
+    *
+    * Adds a message to the log. Outgoing messages are JSON strings and are parsed for display.
+    */
+    public record(direction: KitMessageDirection, message: unknown): void {
+        let parsed: unknown = message;
+        if (typeof message === "string") {
+            try {
+                parsed = JSON.parse(message);
+            }
+            catch {
+                parsed = message;
+            }
+        }
+
+        const eventType = typeof parsed === "object" && parsed !== null && "event_type" in parsed
+            ? String((parsed as { event_type: unknown }).event_type)
+            : "(no event_type)";
+
+        // upload chunks would keep megabytes of base64 alive in the log
+        let truncated = false;
+        if (eventType === "uploadChunkRequest") {
+            const upload = parsed as { payload?: { data?: unknown } };
+            if (typeof upload.payload?.data === "string") {
+                parsed = { ...upload, payload: { ...upload.payload, data: `(${upload.payload.data.length} base64 characters)` } };
+                truncated = true;
+            }
+        }
+
+        const entry: KitMessageLogEntry = { id: this._nextId++, timestamp: new Date(), direction, eventType, message: parsed, truncated };
+        this._entries = [...this._entries.slice(-(maxLogEntries - 1)), entry];
+        this._notify();
+    }
+
+    /**
+    * @function clear
+    *
+    * Removes all entries.
+    */
+    public clear(): void {
+        this._entries = [];
+        this._notify();
+    }
+
+    /**
+    * @function subscribe
+    *
+    * Calls the listener whenever the log changes. Returns a function that unsubscribes it.
+    */
+    public subscribe(listener: KitMessageLogListener): () => void {
+        this._listeners.add(listener);
+        return () => this._listeners.delete(listener);
+    }
+
+    /**
+    * @function _notify
+    *
+    * Informs listeners of a change.
+    */
+    private _notify(): void {
+        this._listeners.forEach(listener => listener(this._entries));
+    }
+}
+
+export const kitMessageLog = new KitMessageLog();
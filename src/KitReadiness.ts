@@ -0,0 +1,76 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import KitClient, { KitRequestError } from './KitClient';
+import { KitEventPayloads } from './Protocol';
+
+export interface KitReadinessOptions {
+    // Milliseconds to wait for the first loadingStateResponse before asking again
+    initialInterval: number;
+    // Upper bound for the wait between queries
+    maxInterval: number;
+    // Factor the wait grows by after each unanswered query
+    backoffFactor: number;
+    // Milliseconds after which Kit is considered unresponsive
+    maxWait: number;
+}
+
+export const defaultReadinessOptions: KitReadinessOptions = {
+    initialInterval: 1000,
+    maxInterval: 10000,
+    backoffFactor: 2,
+    maxWait: 180000
+};
+
+export class KitNotReadyError extends Error {
+    readonly waited: number;
+
+    constructor(waited: number) {
+        super(`Kit did not respond within ${Math.round(waited / 1000)} seconds.`);
+        this.name = "KitNotReadyError";
+        this.waited = waited;
+    }
+}
+
+/**
+ * @function waitForKitReady
+ *
+ * Queries Kit's loading state until it answers, waiting longer after each unanswered query.
+ * Rejects with a KitNotReadyError once `maxWait` has passed, or with a KitRequestError
+ * if the signal is aborted or the client is closed.
+ */
+export async function waitForKitReady(
+    kit: KitClient,
+    options: KitReadinessOptions,
+    signal: AbortSignal
+): Promise<KitEventPayloads["loadingStateResponse"]> {
+    const startedAt = Date.now();
+    let interval = options.initialInterval;
+
+    for (;;) {
+        if (signal.aborted)
+            throw new KitRequestError("loadingStateQuery", "aborted", "Waiting for Kit was cancelled.");
+
+        const remaining = options.maxWait - (Date.now() - startedAt);
+        if (remaining <= 0)
+            throw new KitNotReadyError(Date.now() - startedAt);
+
+        console.info("polling Kit availability");
+        try {
+            return await kit.request("loadingStateQuery", {}, { timeout: Math.min(interval, remaining), signal });
+        }
+        catch (error) {
+            if (!(error instanceof KitRequestError) || error.reason !== "timeout")
+                throw error;
+        }
+        interval = Math.min(interval * options.backoffFactor, options.maxInterval);
+    }
+}
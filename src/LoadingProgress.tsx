@@ -0,0 +1,111 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import React from 'react';
+import './App.css';
+import './LoadingProgress.css';
+
+
+export interface LoadingProgressInfo {
+    // Fraction between 0 and 1, or null until Kit reports an amount
+    fraction: number | null;
+    activity: string;
+    startedAt: number;
+}
+
+interface LoadingProgressProps {
+    progress: LoadingProgressInfo;
+    cancelLabel?: string;
+    onCancel?: () => void;
+}
+
+interface LoadingProgressState {
+    now: number;
+}
+
+/**
+ * @function formatDuration
+ *
+ * Formats milliseconds as m:ss.
+ */
+function formatDuration(milliseconds: number): string {
+    const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Progress bar for a stage that Kit is loading, with elapsed and estimated remaining time.
+ */
+export default class LoadingProgress extends React.Component<LoadingProgressProps, LoadingProgressState> {
+    private _timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(props: LoadingProgressProps) {
+        super(props);
+        this.state = { now: Date.now() };
+    }
+
+    componentDidMount() {
+        this._timer = setInterval(() => this.setState({ now: Date.now() }), 1000);
+    }
+
+    componentWillUnmount() {
+        if (this._timer !== null)
+            clearInterval(this._timer);
+        this._timer = null;
+    }
+
+    /**
+    * @function _getRemainingText
+    *
+    * Estimates the remaining time from the elapsed time and the reported fraction.
+    */
+    private _getRemainingText (elapsed: number): string {
+        const fraction = this.props.progress.fraction;
+        if (fraction === null || fraction < 0.01 || elapsed < 2000)
+            return 'estimating...';
+        if (fraction >= 1)
+            return 'finishing...';
+        return `about ${formatDuration(elapsed * (1 - fraction) / fraction)}`;
+    }
+
+    render() {
+        const { fraction, activity, startedAt } = this.props.progress;
+        const elapsed = this.state.now - startedAt;
+        const percent = fraction === null ? null : Math.round(fraction * 100);
+
+        return (
+            <div className="loadingProgressContainer">
+                <div className="progress" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent ?? undefined}>
+                    <div
+                        className={`progress-bar loadingProgressBar ${percent === null ? 'progress-bar-striped progress-bar-animated' : ''}`}
+                        style={{ width: `${percent ?? 100}%` }}
+                    >
+                        {percent !== null && `${percent}%`}
+                    </div>
+                </div>
+                <div className="loadingProgressActivity" title={activity}>
+                    {activity || 'Waiting for Kit to report progress...'}
+                </div>
+                <div className="loadingProgressTimes">
+                    <span>Elapsed {formatDuration(elapsed)}</span>
+                    <span>Remaining {this._getRemainingText(elapsed)}</span>
+                </div>
+                {this.props.onCancel &&
+                    <button className="nvidia-button" onClick={this.props.onCancel}>
+                        {this.props.cancelLabel ?? 'Cancel'}
+                    </button>
+                }
+            </div>
+        );
+    }
+}
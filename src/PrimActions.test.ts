@@ -0,0 +1,94 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import KitClient from './KitClient';
+import { PrimAction, PrimActionContext, PrimActionRegistry, describePrims } from './PrimActions';
+
+const action = (id: string, isAvailable?: PrimAction["isAvailable"]): PrimAction =>
+    ({ id, label: id, isAvailable, run: () => Promise.resolve() });
+
+const context: PrimActionContext = { paths: ["/World/Cube"], kit: new KitClient(() => undefined) };
+
+describe("PrimActionRegistry", () => {
+    let registry: PrimActionRegistry;
+
+    const ids = () => registry.available(context).map(item => item.id);
+
+    beforeEach(() => {
+        registry = new PrimActionRegistry();
+    });
+
+    it("lists the built-in actions first, each group in registration order", () => {
+        registry.register(action("custom.first"));
+        registry.registerBuiltIn(action("frame"));
+        registry.register(action("custom.second"));
+        registry.registerBuiltIn(action("hide"));
+
+        expect(ids()).toEqual(["frame", "hide", "custom.first", "custom.second"]);
+    });
+
+    it("keeps the order when the built-in actions are registered again", () => {
+        const unregister = [registry.registerBuiltIn(action("frame")), registry.registerBuiltIn(action("hide"))];
+        registry.register(action("custom"));
+
+        unregister.forEach(remove => remove());
+        registry.registerBuiltIn(action("frame"));
+        registry.registerBuiltIn(action("hide"));
+        expect(ids()).toEqual(["frame", "hide", "custom"]);
+    });
+
+    it("keeps an action that replaced a built-in one when the built-in actions are registered again", () => {
+        const unregisterBuiltIn = registry.registerBuiltIn(action("frame"));
+        const replacement = action("frame");
+        registry.register(replacement);
+
+        unregisterBuiltIn();
+        const unregisterAgain = registry.registerBuiltIn(action("frame"));
+        unregisterAgain();
+        expect(registry.available(context)).toEqual([replacement]);
+    });
+
+    it("removes an action with the returned function", () => {
+        const unregister = registry.register(action("custom"));
+        registry.register(action("other"));
+
+        unregister();
+        unregister();
+        expect(ids()).toEqual(["other"]);
+    });
+
+    it("replaces an action registered with the same id", () => {
+        registry.register(action("custom"));
+        const replacement = action("custom");
+        registry.register(replacement);
+
+        expect(registry.available(context)).toEqual([replacement]);
+    });
+
+    it("leaves out actions that are not available, or whose check throws", () => {
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+        registry.register(action("single", ({ paths }) => paths.length === 1));
+        registry.register(action("many", ({ paths }) => paths.length > 1));
+        registry.register(action("broken", () => { throw new Error("Failed"); }));
+
+        expect(ids()).toEqual(["single"]);
+        expect(error).toHaveBeenCalledOnce();
+        error.mockRestore();
+    });
+});
+
+describe("describePrims", () => {
+    it("names a single prim by path and counts several", () => {
+        expect(describePrims(["/World/Cube"])).toBe("/World/Cube");
+        expect(describePrims(["/World/Cube", "/World/Sphere"])).toBe("2 prims");
+    });
+});
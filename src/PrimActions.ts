@@ -0,0 +1,117 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import KitClient from './KitClient';
+
+/*
+ * Registry of the actions offered by the context menu of the USD Stage rows.
+ *
+ * Window registers the built-in actions with registerBuiltIn while it is mounted. App-specific
+ * actions can be added from outside the core files with register, at any time, and are listed
+ * after the built-in ones. An action registered with the id of a built-in one replaces it for
+ * good, even when Window registers the built-in actions again:
+ *
+ *     const unregister = primActions.register({
+ *         id: "myApp.printPaths",
+ *         label: "Print paths",
+ *         run: async ({ paths }) => { console.log(paths); return `Printed ${paths.length} paths.`; }
+ *     });
+ */
+
+export interface PrimActionContext {
+    // The right-clicked prim, or the whole selection if the prim is selected
+    paths: string[];
+    kit: KitClient;
+}
+
+export interface PrimAction {
+    // Registering an action with the id of another one replaces it
+    id: string;
+    label: string;
+    // The action is left out of the menu when this returns false
+    isAvailable?: (context: PrimActionContext) => boolean;
+    // Resolves to an optional message describing what was done; rejects with the reason the action failed
+    run: (context: PrimActionContext) => Promise<string | void>;
+}
+
+// Outcome of an action shown in the USD Stage
+export interface StageActionStatus {
+    message: string;
+    isError: boolean;
+}
+
+/**
+ * @function describePrims
+ *
+ * Names the prims an action applies to in menus and messages.
+ */
+export function describePrims(paths: string[]): string {
+    return paths.length === 1 ? paths[0] : `${paths.length} prims`;
+}
+
+export class PrimActionRegistry {
+    private _actions: { action: PrimAction; isBuiltIn: boolean }[] = [];
+
+    /**
+    * @function register
+    *
+    * Adds an action to the menu. Returns a function that removes it.
+    */
+    public register(action: PrimAction): () => void {
+        return this._add(action, false);
+    }
+
+    /**
+    * @function registerBuiltIn
+    *
+    * Adds an action listed before the actions added with register, unless an action added with
+    * register already has its id. Returns a function that removes it.
+    */
+    public registerBuiltIn(action: PrimAction): () => void {
+        if (this._actions.some(item => !item.isBuiltIn && item.action.id === action.id))
+            return () => undefined;
+        return this._add(action, true);
+    }
+
+    /**
+    * @function available
+    *
+    * The actions to offer for the prims: the built-in actions, then the others, each in the
+    * order they were registered. An action whose availability check throws is reported and left out.
+    */
+    public available(context: PrimActionContext): PrimAction[] {
+        const ordered = [...this._actions.filter(item => item.isBuiltIn), ...this._actions.filter(item => !item.isBuiltIn)];
+        return ordered.map(item => item.action).filter(action => {
+            try {
+                return action.isAvailable?.(context) ?? true;
+            }
+            catch (error) {
+                console.error(`Availability check of '${action.id}' failed:`, error);
+                return false;
+            }
+        });
+    }
+
+    /**
+    * @function _add
+    *
+    * Adds an action, replacing any with the same id.
+    */
+    private _add(action: PrimAction, isBuiltIn: boolean): () => void {
+        const entry = { action, isBuiltIn };
+        this._actions = [...this._actions.filter(item => item.action.id !== action.id), entry];
+        return () => {
+            this._actions = this._actions.filter(item => item !== entry);
+        };
+    }
+}
+
+export const primActions = new PrimActionRegistry();
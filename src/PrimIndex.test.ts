@@ -0,0 +1,84 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { beforeEach, describe, expect, it } from 'vitest';
+import PrimIndex from './PrimIndex';
+import { USDPrimType } from './Protocol';
+
+// Kit marks prims that have children it has not sent with a non-array value
+const unfetched = {} as USDPrimType[];
+
+describe("PrimIndex", () => {
+    let index: PrimIndex;
+    let world: USDPrimType;
+    let looks: USDPrimType;
+
+    beforeEach(() => {
+        world = { path: "/World", name: "World", children: [{ path: "/World/Cube", name: "Cube" }] };
+        looks = { path: "/Looks", name: "Looks", children: unfetched };
+        index = new PrimIndex();
+        index.reset([world, looks]);
+    });
+
+    it("indexes the prims and their fetched descendants by path", () => {
+        expect(index.size).toBe(3);
+        expect(index.get("/World/Cube")?.name).toBe("Cube");
+        expect(index.get("/Looks")).toBe(looks);
+        expect(Array.from(index.values(), prim => prim.path)).toEqual(["/World", "/World/Cube", "/Looks"]);
+    });
+
+    it("forgets everything else on reset", () => {
+        index.reset([{ path: "/Other" }]);
+        expect(index.size).toBe(1);
+        expect(index.get("/World")).toBeUndefined();
+    });
+
+    it("indexes children as they arrive", () => {
+        index.setChildren(looks, [{ path: "/Looks/Red", children: [{ path: "/Looks/Red/Shader" }] }]);
+        expect(looks.children).toHaveLength(1);
+        expect(index.get("/Looks/Red/Shader")?.path).toBe("/Looks/Red/Shader");
+        expect(index.size).toBe(5);
+    });
+
+    it("forgets the previous children and their descendants", () => {
+        index.setChildren(world, [{ path: "/World/Sphere" }]);
+        expect(index.get("/World/Cube")).toBeUndefined();
+        expect(index.get("/World/Sphere")).toBeDefined();
+        expect(index.size).toBe(3);
+    });
+
+    it("keeps the fetched descendants of prims listed again", () => {
+        const root = { path: "/", children: [world, looks] };
+        index.reset([root]);
+        index.setChildren(root, [{ path: "/World", children: unfetched }, { path: "/Extra" }]);
+
+        expect(index.get("/World")?.children).toEqual([{ path: "/World/Cube", name: "Cube" }]);
+        expect(index.get("/World/Cube")).toBeDefined();
+        expect(index.get("/Looks")).toBeUndefined();
+        expect(index.get("/Extra")).toBeDefined();
+    });
+
+    it("forgets a removed prim and its descendants", () => {
+        index.remove(world);
+        expect(index.get("/World")).toBeUndefined();
+        expect(index.get("/World/Cube")).toBeUndefined();
+        expect(index.get("/Looks")).toBe(looks);
+    });
+
+    it("moves a renamed prim and its descendants", () => {
+        index.rename(world, "/Scene");
+        expect(world).toEqual({ path: "/Scene", name: "Scene", children: [{ path: "/Scene/Cube", name: "Cube" }] });
+        expect(index.get("/Scene/Cube")?.path).toBe("/Scene/Cube");
+        expect(index.get("/World")).toBeUndefined();
+        expect(index.get("/World/Cube")).toBeUndefined();
+        expect(index.size).toBe(3);
+    });
+});
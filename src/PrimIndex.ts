@@ -0,0 +1,130 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { USDPrimType } from './Protocol';
+import { movePath } from './StageChanges';
+
+/**
+ * Path → prim lookup for the prims fetched so far. It is kept up to date as children
+ * arrive, so finding a prim does not require walking the tree.
+ */
+export default class PrimIndex {
+    private _prims = new Map<string, USDPrimType>();
+
+    get size(): number {
+        return this._prims.size;
+    }
+
+    /**
+    * @function get
+    *
+    * The prim at a path, if it has been fetched.
+    */
+    public get(path: string): USDPrimType | undefined {
+        return this._prims.get(path);
+    }
+
+    /**
+    * @function values
+    *
+    * All fetched prims.
+    */
+    public values(): IterableIterator<USDPrimType> {
+        return this._prims.values();
+    }
+
+    /**
+    * @function reset
+    *
+    * Index a new set of top-level prims, forgetting everything else.
+    */
+    public reset(usdPrims: USDPrimType[]): void {
+        this._prims.clear();
+        this._add(usdPrims);
+    }
+
+    /**
+    * @function setChildren
+    *
+    * Replace the children of a prim, removing the previous children and their descendants.
+    * Children that are still there keep the descendants fetched for them.
+    */
+    public setChildren(parent: USDPrimType, children: USDPrimType[] | undefined): void {
+        this.replace(parent.children, children);
+        parent.children = children;
+    }
+
+    /**
+    * @function replace
+    *
+    * Replace a list of prims with a new one, such as the top-level prims, keeping the fetched
+    * descendants of the prims that are in both lists.
+    */
+    public replace(previous: USDPrimType[] | undefined, usdPrims: USDPrimType[] | undefined): void {
+        if (Array.isArray(previous) && Array.isArray(usdPrims)) {
+            const fetched = new Map(previous.filter(prim => Array.isArray(prim.children)).map(prim => [prim.path, prim.children]));
+            for (const prim of usdPrims) {
+                // Kit marks prims that have children with a non-array value
+                if (fetched.has(prim.path) && prim.children !== undefined && !Array.isArray(prim.children))
+                    prim.children = fetched.get(prim.path);
+            }
+        }
+        this._remove(previous);
+        this._add(usdPrims);
+    }
+
+    /**
+    * @function remove
+    *
+    * Forget a prim and its descendants.
+    */
+    public remove(prim: USDPrimType): void {
+        this._remove([prim]);
+    }
+
+    /**
+    * @function rename
+    *
+    * Move a prim and its descendants to a new path.
+    */
+    public rename(prim: USDPrimType, path: string): void {
+        const from = prim.path;
+        this._remove([prim]);
+        const visit = (usdPrims: USDPrimType[]) => {
+            for (const item of usdPrims) {
+                item.path = movePath(item.path, from, path) ?? item.path;
+                if (Array.isArray(item.children))
+                    visit(item.children);
+            }
+        };
+        visit([prim]);
+        prim.name = path.split('/').pop();
+        this._add([prim]);
+    }
+
+    private _add(usdPrims: USDPrimType[] | undefined): void {
+        if (!Array.isArray(usdPrims))
+            return;
+        for (const prim of usdPrims) {
+            this._prims.set(prim.path, prim);
+            this._add(prim.children);
+        }
+    }
+
+    private _remove(usdPrims: USDPrimType[] | undefined): void {
+        if (!Array.isArray(usdPrims))
+            return;
+        for (const prim of usdPrims) {
+            this._prims.delete(prim.path);
+            this._remove(prim.children);
+        }
+    }
+}
@@ -0,0 +1,94 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Matching rules of the USD Stage search, shared by the client-side filter of loaded prims
+ * and the mock Kit application so both agree on what a query matches.
+ */
+import { USDPrimType } from './Protocol';
+
+export interface PrimSearchResult {
+    query: string;
+    types: string[];
+    // Paths of the matching prims; every match has its ancestors loaded in the tree
+    matches: Set<string>;
+    isSearching: boolean;
+    truncated: boolean;
+    error: string | null;
+}
+
+export interface PrimTypeFilter {
+    label: string;
+    types: string[];
+}
+
+// Quick filters offered next to the search box
+export const primTypeFilters: PrimTypeFilter[] = [
+    { label: "Meshes", types: ["Mesh"] },
+    { label: "Shapes", types: ["Cube", "Sphere", "Cylinder", "Cone", "Capsule"] },
+    { label: "Xforms", types: ["Xform"] },
+    { label: "Scopes", types: ["Scope"] }
+];
+
+// Maximum number of matches Kit is asked to return
+export const searchResultLimit = 200;
+
+/**
+ * @function isPrimSearchActive
+ *
+ * A search needs a query or at least one type filter.
+ */
+export function isPrimSearchActive(query: string, types: string[]): boolean {
+    return query.trim().length > 0 || types.length > 0;
+}
+
+/**
+ * @function matchesPrimSearch
+ *
+ * Queries containing a '/' are matched against the prim path, others against the prim name.
+ * Matching is case-insensitive. Prims of an unknown type never match a type filter.
+ */
+export function matchesPrimSearch(prim: { name?: string; path: string; type?: string }, query: string, types: string[]): boolean {
+    if (types.length > 0 && !(prim.type && types.includes(prim.type)))
+        return false;
+
+    const needle = query.trim().toLowerCase();
+    if (!needle)
+        return true;
+
+    const haystack = needle.includes('/') ? prim.path : (prim.name ?? prim.path.split('/').pop() ?? '');
+    return haystack.toLowerCase().includes(needle);
+}
+
+/**
+ * @function searchLoadedPrims
+ *
+ * Paths of the prims matching a search among those fetched so far.
+ */
+export function searchLoadedPrims(usdPrims: Iterable<USDPrimType>, query: string, types: string[]): Set<string> {
+    const matches = new Set<string>();
+    for (const prim of usdPrims) {
+        if (matchesPrimSearch(prim, query, types))
+            matches.add(prim.path);
+    }
+    return matches;
+}
+
+/**
+ * @function ancestorPaths
+ *
+ * Paths of the ancestors of a prim, outermost first: "/World/A/B" has "/World" and "/World/A".
+ */
+export function ancestorPaths(path: string): string[] {
+    const names = path.split('/').filter(Boolean);
+    return names.slice(0, -1).map((_, index) => '/' + names.slice(0, index + 1).join('/'));
+}
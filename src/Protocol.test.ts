@@ -0,0 +1,187 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { describe, expect, it } from 'vitest';
+import { KitEventType, createKitRequest, isKitEventType, parseKitEvent, parseKitMessage } from './Protocol';
+
+const attribute = { name: "radius", type_name: "double", writable: true, value: 1 };
+
+// for every event type, payloads that must be accepted and payloads that must be rejected
+const payloads: { [K in KitEventType]: { valid: unknown[]; malformed: unknown[] } } = {
+    openedStageResult: {
+        valid: [{ url: "./a.usd", result: "success" }, { url: "./a.usd", result: "error", error: "Not found" }],
+        malformed: [{ result: "success" }, { url: "./a.usd", result: "done" }, { url: "./a.usd", result: "error", error: 1 }],
+    },
+    validateStageUrlResponse: {
+        valid: [{ url: "./a.usd", result: "success" }],
+        malformed: [{ url: "./a.usd" }, { url: 1, result: "success" }],
+    },
+    loadingStateResponse: {
+        valid: [{ url: "", loading_state: "idle" }],
+        malformed: [{ url: "./a.usd" }, { url: null, loading_state: "idle" }],
+    },
+    stageInfoResponse: {
+        valid: [{ url: "./a.usd", default_prim_path: "/World", root_prims: [{ path: "/World", children: [{ path: "/World/Cube" }] }] }],
+        malformed: [
+            { url: "./a.usd", default_prim_path: "/World" },
+            { url: "./a.usd", default_prim_path: "/World", root_prims: [{ path: "/World", children: [{ name: "Cube" }] }] },
+        ],
+    },
+    getChildrenResponse: {
+        valid: [
+            { prim_path: "/World", children: [{ path: "/World/Cube", name: "Cube", type: "Mesh", visible: false }] },
+            { prim_path: "/World" },
+            // anything but an array is taken as a prim without children
+            { prim_path: "/World", children: {} },
+        ],
+        malformed: [{ children: [] }, { prim_path: "/World", children: [{ path: "/World/Cube", visible: "no" }] }],
+    },
+    stageSelectionChanged: {
+        valid: [{ prims: ["/World/Cube"] }, { prims: [] }],
+        malformed: [{ prims: "/World/Cube" }, { prims: [1] }],
+    },
+    updateProgressAmount: {
+        valid: [{ amount: 0.5 }, { amount: 0, current: 3, total: 10 }],
+        malformed: [{}, { amount: NaN }, { amount: 0.5, total: "10" }],
+    },
+    updateProgressActivity: {
+        valid: [{ text: "Loading materials" }],
+        malformed: [{ text: 1 }],
+    },
+    getPrimPropertiesResponse: {
+        valid: [
+            { prim_path: "/World/Cube", type: "Mesh", attributes: [attribute], relationships: [{ name: "material:binding", targets: ["/Looks/Red"] }], metadata: {} },
+            { prim_path: "/World/Gone", error: "No such prim" },
+        ],
+        malformed: [
+            { prim_path: "/World/Cube", type: "Mesh", attributes: [{ ...attribute, writable: "yes" }], relationships: [], metadata: {} },
+            { prim_path: "/World/Cube", type: "Mesh", attributes: [], relationships: [], metadata: {}, world_transform: [1, 0, 0] },
+            { prim_path: "/World/Cube", type: "Mesh", attributes: [], relationships: [] },
+        ],
+    },
+    setPrimAttributeResponse: {
+        valid: [{ prim_path: "/World/Cube", attribute: "radius", result: "success", value: 2 }],
+        malformed: [{ prim_path: "/World/Cube", result: "success" }],
+    },
+    searchPrimsResponse: {
+        valid: [{ query: "cube", types: [], matches: [{ path: "/World/Cube" }], truncated: false }],
+        malformed: [{ query: "cube", types: [], matches: [] }, { query: "cube", types: [], matches: {}, truncated: true }],
+    },
+    setPrimVisibilityResponse: {
+        valid: [{ paths: ["/World/Cube"], visible: false, result: "success" }],
+        malformed: [{ paths: ["/World/Cube"], visible: "false", result: "success" }],
+    },
+    isolatePrimsResponse: {
+        valid: [{ paths: ["/World/Cube"], result: "error", error: "Failed" }],
+        malformed: [{ paths: "/World/Cube", result: "success" }],
+    },
+    showAllPrimsResponse: {
+        valid: [{ result: "success" }],
+        malformed: [{}],
+    },
+    framePrimsResponse: {
+        valid: [{ paths: [], result: "success" }],
+        malformed: [{ result: "success" }],
+    },
+    primVisibilityChanged: {
+        valid: [{ prims: [{ path: "/World/Cube", visible: true }] }],
+        malformed: [{ prims: [{ path: "/World/Cube" }] }],
+    },
+    stageChanged: {
+        valid: [{ changes: [{ kind: "added", path: "/World/A" }, { kind: "renamed", path: "/World/A", new_path: "/World/B" }] }],
+        malformed: [{ changes: [{ kind: "renamed", path: "/World/A" }] }, { changes: [{ kind: "moved", path: "/World/A" }] }],
+    },
+    getVariantSetsResponse: {
+        valid: [{ prim_path: "/World/Car", variant_sets: [{ name: "color", variants: ["red", "blue"], selection: null }] }],
+        malformed: [{ prim_path: "/World/Car" }, { prim_path: "/World/Car", variant_sets: [{ name: "color", variants: ["red"], selection: 1 }] }],
+    },
+    setVariantSelectionResponse: {
+        valid: [{ prim_path: "/World/Car", variant_set: "color", variant: "red", result: "success" }],
+        malformed: [{ prim_path: "/World/Car", variant_set: "color", result: "success" }],
+    },
+    beginUploadResponse: {
+        valid: [{ upload_id: "1", result: "success" }],
+        malformed: [{ upload_id: 1, result: "success" }],
+    },
+    uploadChunkResponse: {
+        valid: [{ upload_id: "1", index: 0, result: "success" }],
+        malformed: [{ upload_id: "1", index: "0", result: "success" }],
+    },
+    finishUploadResponse: {
+        valid: [{ upload_id: "1", result: "success", url: "/uploads/a.usd" }],
+        malformed: [{ upload_id: "1", result: "success", url: 1 }],
+    },
+};
+
+const cases = (kind: "valid" | "malformed") =>
+    (Object.keys(payloads) as KitEventType[]).flatMap(eventType =>
+        payloads[eventType][kind].map(payload => [eventType, payload] as [KitEventType, unknown]));
+
+describe("parseKitEvent", () => {
+    it.each(cases("valid"))("accepts a valid %s: %j", (event_type, payload) => {
+        expect(parseKitEvent({ event_type, payload })).toEqual({ kind: "event", event: { event_type, payload } });
+    });
+
+    it.each(cases("malformed"))("rejects a malformed %s: %j", (event_type, payload) => {
+        const result = parseKitEvent({ event_type, payload });
+        expect(result.kind).toBe("malformed");
+        expect(result.kind === "malformed" && result.error).toMatch(new RegExp(`^${event_type}: `));
+    });
+
+    it.each(Object.keys(payloads))("rejects a %s without a payload object", (event_type) => {
+        expect(parseKitEvent({ event_type, payload: [] }).kind).toBe("malformed");
+        expect(parseKitEvent({ event_type }).kind).toBe("malformed");
+    });
+
+    it("passes unknown event types on without validating them", () => {
+        expect(parseKitEvent({ event_type: "customEvent", payload: "anything" }))
+            .toEqual({ kind: "unknown", message: { event_type: "customEvent", payload: "anything" } });
+    });
+
+    const envelopes: unknown[] = [null, "loadingStateResponse", [], {}, { event_type: "" }, { event_type: 1, payload: {} }];
+
+    it.each(envelopes)("rejects a message without an event type: %j", (raw) => {
+        expect(parseKitEvent(raw)).toMatchObject({ kind: "malformed", raw });
+    });
+
+    it("ignores messages echoed back to Kit", () => {
+        const raw = { messageRecipient: "kit", event_type: "openStageRequest", payload: { url: "./a.usd" } };
+        expect(parseKitEvent(raw)).toEqual({ kind: "ignored", raw });
+    });
+});
+
+describe("parseKitMessage", () => {
+    it("passes any payload on, including app-specific payloads of known event types", () => {
+        const raw = { event_type: "openedStageResult", payload: { path: "./a.usd", ok: true } };
+        expect(parseKitEvent(raw).kind).toBe("malformed");
+        expect(parseKitMessage(raw)).toEqual({ kind: "message", message: raw });
+        expect(parseKitMessage({ event_type: "customEvent" })).toEqual({ kind: "message", message: { event_type: "customEvent", payload: undefined } });
+    });
+
+    it("rejects messages without an event type and ignores messages echoed back to Kit", () => {
+        expect(parseKitMessage({ payload: {} }).kind).toBe("malformed");
+        expect(parseKitMessage({ messageRecipient: "kit", event_type: "openStageRequest", payload: {} }).kind).toBe("ignored");
+    });
+});
+
+describe("isKitEventType", () => {
+    it("knows the event types Kit sends but not the requests", () => {
+        expect(isKitEventType("openedStageResult")).toBe(true);
+        expect(isKitEventType("openStageRequest")).toBe(false);
+        expect(isKitEventType("toString")).toBe(false);
+    });
+});
+
+describe("createKitRequest", () => {
+    it("wraps the payload in a message envelope", () => {
+        expect(createKitRequest("openStageRequest", { url: "./a.usd" })).toEqual({ event_type: "openStageRequest", payload: { url: "./a.usd" } });
+    });
+});
@@ -0,0 +1,499 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Message protocol spoken between this client and the USD Viewer Kit application.
+ *
+ * Outgoing messages are modelled as the KitRequest union and incoming messages as the
+ * KitEvent union; both are discriminated by `event_type`. Incoming messages arrive as
+ * untyped objects from the streaming library, so parseKitEvent validates the payload
+ * before the rest of the client is allowed to read it.
+ */
+
+export interface USDPrimType {
+    name?: string;
+    path: string;
+    // USD schema type, e.g. "Mesh"; not every Kit application reports it
+    type?: string;
+    // false for prims authored invisible; not every Kit application reports it
+    visible?: boolean;
+    children?: USDPrimType[];
+}
+
+export type LoadingState = "idle" | "loading" | string;
+
+export type USDAttributeValue = boolean | number | string | null | USDAttributeValue[];
+
+export interface USDAttribute {
+    name: string;
+    // USD value type name, e.g. "float3" or "token"
+    type_name: string;
+    value: USDAttributeValue;
+    // false for attributes Kit does not allow the client to author
+    writable: boolean;
+}
+
+export interface USDRelationship {
+    name: string;
+    targets: string[];
+}
+
+export interface USDPrimProperties {
+    prim_path: string;
+    type: string;
+    attributes: USDAttribute[];
+    relationships: USDRelationship[];
+    metadata: Record<string, USDAttributeValue>;
+    // Row-major 4x4 local-to-world matrix; absent for prims that are not transformable
+    world_transform?: number[];
+}
+
+// A change Kit made to the loaded stage
+export type StageChange =
+    | { kind: "added"; path: string }
+    | { kind: "removed"; path: string }
+    // the prim keeps its place among its siblings and takes its descendants along
+    | { kind: "renamed"; path: string; new_path: string };
+
+export interface USDVariantSet {
+    name: string;
+    // variant names in the order they are authored
+    variants: string[];
+    // null if no variant is selected
+    selection: string | null;
+}
+
+export interface PrimVisibility {
+    path: string;
+    // authored visibility; a visible prim is still hidden when an ancestor is invisible
+    visible: boolean;
+}
+
+/*
+ * Messages sent from the client to Kit.
+ */
+export interface KitRequestPayloads {
+    openStageRequest: { url: string };
+    // asks Kit to stop loading a stage it is opening
+    cancelOpenStage: { url: string };
+    // asks Kit whether a stage exists and can be opened, without opening it
+    validateStageUrlRequest: { url: string };
+    getChildrenRequest: { prim_path: string; filters: string[] };
+    makePrimsPickable: { paths: string[] };
+    selectPrimsRequest: { paths: string[] };
+    resetStage: Record<string, never>;
+    loadingStateQuery: Record<string, never>;
+    stageInfoQuery: Record<string, never>;
+    getPrimPropertiesRequest: { prim_path: string };
+    setPrimAttributeRequest: { prim_path: string; attribute: string; value: USDAttributeValue };
+    searchPrimsRequest: { query: string; root_path: string; filters: string[]; types: string[]; limit: number };
+    setPrimVisibilityRequest: { paths: string[]; visible: boolean };
+    // hides everything except the prims, their ancestors and their descendants
+    isolatePrimsRequest: { paths: string[] };
+    showAllPrimsRequest: Record<string, never>;
+    // asks Kit to fit the viewport camera to the bounds of the prims
+    framePrimsRequest: { paths: string[] };
+    // asks Kit to report changes to the loaded stage with stageChanged
+    watchStageChanges: { enabled: boolean };
+    getVariantSetsRequest: { prim_path: string };
+    setVariantSelectionRequest: { prim_path: string; variant_set: string; variant: string };
+    // a local file sent to Kit in base64 chunks; `sha256` is the hex digest of the whole file
+    beginUploadRequest: { upload_id: string; file_name: string; size: number; chunk_count: number; sha256: string };
+    // `sha256` is the hex digest of the decoded chunk
+    uploadChunkRequest: { upload_id: string; index: number; data: string; sha256: string };
+    finishUploadRequest: { upload_id: string };
+    // asks Kit to drop the chunks received so far
+    cancelUpload: { upload_id: string };
+}
+
+export type KitRequestType = keyof KitRequestPayloads;
+
+export type KitRequest = {
+    [K in KitRequestType]: { event_type: K; payload: KitRequestPayloads[K] }
+}[KitRequestType];
+
+/*
+ * Messages sent from Kit to the client.
+ */
+export interface KitEventPayloads {
+    openedStageResult: { url: string; result: "success" | "error"; error?: string };
+    validateStageUrlResponse: { url: string; result: "success" | "error"; error?: string };
+    loadingStateResponse: { url: string; loading_state: LoadingState };
+    // `default_prim_path` is empty when the stage has no default prim
+    stageInfoResponse: { url: string; default_prim_path: string; root_prims: USDPrimType[] };
+    getChildrenResponse: { prim_path: string; children?: USDPrimType[] };
+    stageSelectionChanged: { prims: string[] };
+    // `amount` is a fraction between 0 and 1; `current` of `total` steps takes precedence when sent
+    updateProgressAmount: { amount: number; current?: number; total?: number };
+    updateProgressActivity: { text: string };
+    getPrimPropertiesResponse: Partial<USDPrimProperties> & { prim_path: string; error?: string };
+    setPrimAttributeResponse: { prim_path: string; attribute: string; result: "success" | "error"; value?: USDAttributeValue; error?: string };
+    // `truncated` is true when more than `limit` prims matched
+    searchPrimsResponse: { query: string; types: string[]; matches: USDPrimType[]; truncated: boolean };
+    setPrimVisibilityResponse: { paths: string[]; visible: boolean; result: "success" | "error"; error?: string };
+    isolatePrimsResponse: { paths: string[]; result: "success" | "error"; error?: string };
+    showAllPrimsResponse: { result: "success" | "error"; error?: string };
+    framePrimsResponse: { paths: string[]; result: "success" | "error"; error?: string };
+    // sent whenever the visibility of prims changed, whoever changed it
+    primVisibilityChanged: { prims: PrimVisibility[] };
+    // changes in the order Kit made them
+    stageChanged: { changes: StageChange[] };
+    // `variant_sets` is empty for prims without variant sets
+    getVariantSetsResponse: { prim_path: string; variant_sets: USDVariantSet[]; error?: string };
+    setVariantSelectionResponse: { prim_path: string; variant_set: string; variant: string; result: "success" | "error"; error?: string };
+    beginUploadResponse: { upload_id: string; result: "success" | "error"; error?: string };
+    uploadChunkResponse: { upload_id: string; index: number; result: "success" | "error"; error?: string };
+    // `url` is where Kit stored the file, or the root stage extracted from a zip
+    finishUploadResponse: { upload_id: string; result: "success" | "error"; url?: string; error?: string };
+}
+
+export type KitEventType = keyof KitEventPayloads;
+
+export type KitEvent = {
+    [K in KitEventType]: { event_type: K; payload: KitEventPayloads[K] }
+}[KitEventType];
+
+export type KitEventOf<K extends KitEventType> = Extract<KitEvent, { event_type: K }>;
+
+/*
+ * Requests that Kit answers with a dedicated response message.
+ */
+export interface KitResponseTypes {
+    openStageRequest: "openedStageResult";
+    validateStageUrlRequest: "validateStageUrlResponse";
+    getChildrenRequest: "getChildrenResponse";
+    loadingStateQuery: "loadingStateResponse";
+    stageInfoQuery: "stageInfoResponse";
+    getPrimPropertiesRequest: "getPrimPropertiesResponse";
+    setPrimAttributeRequest: "setPrimAttributeResponse";
+    searchPrimsRequest: "searchPrimsResponse";
+    setPrimVisibilityRequest: "setPrimVisibilityResponse";
+    isolatePrimsRequest: "isolatePrimsResponse";
+    showAllPrimsRequest: "showAllPrimsResponse";
+    framePrimsRequest: "framePrimsResponse";
+    getVariantSetsRequest: "getVariantSetsResponse";
+    setVariantSelectionRequest: "setVariantSelectionResponse";
+    beginUploadRequest: "beginUploadResponse";
+    uploadChunkRequest: "uploadChunkResponse";
+    finishUploadRequest: "finishUploadResponse";
+}
+
+export type KitQueryType = keyof KitResponseTypes;
+
+export type KitResponsePayload<K extends KitQueryType> = KitEventPayloads[KitResponseTypes[K]];
+
+/**
+ * Any message with a valid envelope, including event types this client does not know about.
+ */
+export interface KitMessage {
+    event_type: string;
+    payload: unknown;
+}
+
+export type KitMessageParseResult =
+    | { kind: "message"; message: KitMessage }
+    | { kind: "malformed"; error: string; raw: unknown }
+    | { kind: "ignored"; raw: unknown };
+
+export type KitEventParseResult =
+    | { kind: "event"; event: KitEvent }
+    | { kind: "unknown"; message: KitMessage }
+    | { kind: "malformed"; error: string; raw: unknown }
+    | { kind: "ignored"; raw: unknown };
+
+type Validator = (payload: Record<string, unknown>) => string | null;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectString = (payload: Record<string, unknown>, key: string): string | null =>
+    typeof payload[key] === "string" ? null : `'${key}' must be a string`;
+
+const expectNumber = (payload: Record<string, unknown>, key: string): string | null =>
+    typeof payload[key] === "number" && !isNaN(payload[key] as number) ? null : `'${key}' must be a number`;
+
+const expectOptionalNumber = (payload: Record<string, unknown>, key: string): string | null =>
+    payload[key] === undefined ? null : expectNumber(payload, key);
+
+const expectOptionalString = (payload: Record<string, unknown>, key: string): string | null =>
+    payload[key] === undefined ? null : expectString(payload, key);
+
+const expectResult = (payload: Record<string, unknown>): string | null =>
+    (payload.result === "success" || payload.result === "error" ? null : "'result' must be 'success' or 'error'")
+    ?? expectOptionalString(payload, "error");
+
+const expectStringArray = (payload: Record<string, unknown>, key: string): string | null =>
+    Array.isArray(payload[key]) && (payload[key] as unknown[]).every(item => typeof item === "string")
+        ? null
+        : `'${key}' must be an array of strings`;
+
+/**
+ * @function validatePrim
+ *
+ * Recursively validates a prim object from a getChildrenResponse.
+ */
+function validatePrim(prim: unknown, location: string): string | null {
+    if (!isObject(prim))
+        return `${location} must be an object`;
+    if (typeof prim.path !== "string")
+        return `${location}.path must be a string`;
+    if (prim.name !== undefined && typeof prim.name !== "string")
+        return `${location}.name must be a string`;
+    if (prim.type !== undefined && typeof prim.type !== "string")
+        return `${location}.type must be a string`;
+    if (prim.visible !== undefined && typeof prim.visible !== "boolean")
+        return `${location}.visible must be a boolean`;
+    if (Array.isArray(prim.children)) {
+        for (let i = 0; i < prim.children.length; i++) {
+            const error = validatePrim(prim.children[i], `${location}.children[${i}]`);
+            if (error)
+                return error;
+        }
+    }
+    return null;
+}
+
+/**
+ * @function validatePrims
+ *
+ * Validates an array of prims.
+ */
+function validatePrims(payload: Record<string, unknown>, key: string): string | null {
+    const prims = payload[key];
+    if (!Array.isArray(prims))
+        return `'${key}' must be an array`;
+    for (let i = 0; i < prims.length; i++) {
+        const error = validatePrim(prims[i], `${key}[${i}]`);
+        if (error)
+            return error;
+    }
+    return null;
+}
+
+/**
+ * @function validatePrimProperties
+ *
+ * Validates the properties of a getPrimPropertiesResponse that was not an error.
+ */
+function validatePrimProperties(payload: Record<string, unknown>): string | null {
+    const typeError = expectString(payload, "type");
+    if (typeError)
+        return typeError;
+
+    if (!Array.isArray(payload.attributes))
+        return "'attributes' must be an array";
+    for (let i = 0; i < payload.attributes.length; i++) {
+        const attribute: unknown = payload.attributes[i];
+        if (!isObject(attribute))
+            return `attributes[${i}] must be an object`;
+        const error = expectString(attribute, "name") ?? expectString(attribute, "type_name")
+            ?? (typeof attribute.writable === "boolean" ? null : "'writable' must be a boolean")
+            ?? ("value" in attribute ? null : "'value' is missing");
+        if (error)
+            return `attributes[${i}]: ${error}`;
+    }
+
+    if (!Array.isArray(payload.relationships))
+        return "'relationships' must be an array";
+    for (let i = 0; i < payload.relationships.length; i++) {
+        const relationship: unknown = payload.relationships[i];
+        if (!isObject(relationship))
+            return `relationships[${i}] must be an object`;
+        const error = expectString(relationship, "name") ?? expectStringArray(relationship, "targets");
+        if (error)
+            return `relationships[${i}]: ${error}`;
+    }
+
+    if (!isObject(payload.metadata))
+        return "'metadata' must be an object";
+
+    const transform = payload.world_transform;
+    if (transform !== undefined && !(Array.isArray(transform) && transform.length === 16 && transform.every(item => typeof item === "number")))
+        return "'world_transform' must be an array of 16 numbers";
+
+    return null;
+}
+
+const validators: { [K in KitEventType]: Validator } = {
+    openedStageResult: (payload) =>
+        expectString(payload, "url")
+        ?? (payload.result === "success" || payload.result === "error" ? null : "'result' must be 'success' or 'error'")
+        ?? (payload.error === undefined ? null : expectString(payload, "error")),
+
+    validateStageUrlResponse: (payload) => expectString(payload, "url") ?? expectResult(payload),
+
+    loadingStateResponse: (payload) =>
+        expectString(payload, "url") ?? expectString(payload, "loading_state"),
+
+    stageInfoResponse: (payload) =>
+        expectString(payload, "url") ?? expectString(payload, "default_prim_path") ?? validatePrims(payload, "root_prims"),
+
+    getChildrenResponse: (payload) =>
+        expectString(payload, "prim_path") ?? (Array.isArray(payload.children) ? validatePrims(payload, "children") : null),
+
+    stageSelectionChanged: (payload) => expectStringArray(payload, "prims"),
+
+    updateProgressAmount: (payload) =>
+        expectNumber(payload, "amount") ?? expectOptionalNumber(payload, "current") ?? expectOptionalNumber(payload, "total"),
+
+    updateProgressActivity: (payload) => expectString(payload, "text"),
+
+    getPrimPropertiesResponse: (payload) =>
+        expectString(payload, "prim_path")
+        ?? (payload.error !== undefined ? expectString(payload, "error") : validatePrimProperties(payload)),
+
+    setPrimAttributeResponse: (payload) =>
+        expectString(payload, "prim_path")
+        ?? expectString(payload, "attribute")
+        ?? (payload.result === "success" || payload.result === "error" ? null : "'result' must be 'success' or 'error'")
+        ?? expectOptionalString(payload, "error"),
+
+    searchPrimsResponse: (payload) => {
+        const error = expectString(payload, "query")
+            ?? expectStringArray(payload, "types")
+            ?? (typeof payload.truncated === "boolean" ? null : "'truncated' must be a boolean");
+        return error ?? validatePrims(payload, "matches");
+    },
+
+    setPrimVisibilityResponse: (payload) =>
+        expectStringArray(payload, "paths")
+        ?? (typeof payload.visible === "boolean" ? null : "'visible' must be a boolean")
+        ?? expectResult(payload),
+
+    isolatePrimsResponse: (payload) => expectStringArray(payload, "paths") ?? expectResult(payload),
+
+    showAllPrimsResponse: (payload) => expectResult(payload),
+
+    framePrimsResponse: (payload) => expectStringArray(payload, "paths") ?? expectResult(payload),
+
+    primVisibilityChanged: (payload) => {
+        if (!Array.isArray(payload.prims))
+            return "'prims' must be an array";
+        for (let i = 0; i < payload.prims.length; i++) {
+            const prim: unknown = payload.prims[i];
+            if (!isObject(prim) || typeof prim.path !== "string" || typeof prim.visible !== "boolean")
+                return `prims[${i}] must have a string 'path' and a boolean 'visible'`;
+        }
+        return null;
+    },
+
+    stageChanged: (payload) => {
+        if (!Array.isArray(payload.changes))
+            return "'changes' must be an array";
+        for (let i = 0; i < payload.changes.length; i++) {
+            const change: unknown = payload.changes[i];
+            if (!isObject(change))
+                return `changes[${i}] must be an object`;
+            const error = expectString(change, "path")
+                ?? (change.kind === "added" || change.kind === "removed" ? null
+                    : change.kind === "renamed" ? expectString(change, "new_path")
+                    : "'kind' must be 'added', 'removed' or 'renamed'");
+            if (error)
+                return `changes[${i}]: ${error}`;
+        }
+        return null;
+    },
+
+    getVariantSetsResponse: (payload) => {
+        const error = expectString(payload, "prim_path") ?? expectOptionalString(payload, "error");
+        if (error)
+            return error;
+        if (!Array.isArray(payload.variant_sets))
+            return "'variant_sets' must be an array";
+        for (let i = 0; i < payload.variant_sets.length; i++) {
+            const variantSet: unknown = payload.variant_sets[i];
+            if (!isObject(variantSet))
+                return `variant_sets[${i}] must be an object`;
+            const setError = expectString(variantSet, "name")
+                ?? expectStringArray(variantSet, "variants")
+                ?? (variantSet.selection === null ? null : expectString(variantSet, "selection"));
+            if (setError)
+                return `variant_sets[${i}]: ${setError}`;
+        }
+        return null;
+    },
+
+    setVariantSelectionResponse: (payload) =>
+        expectString(payload, "prim_path")
+        ?? expectString(payload, "variant_set")
+        ?? expectString(payload, "variant")
+        ?? expectResult(payload),
+
+    beginUploadResponse: (payload) => expectString(payload, "upload_id") ?? expectResult(payload),
+
+    uploadChunkResponse: (payload) =>
+        expectString(payload, "upload_id") ?? expectNumber(payload, "index") ?? expectResult(payload),
+
+    finishUploadResponse: (payload) =>
+        expectString(payload, "upload_id") ?? expectOptionalString(payload, "url") ?? expectResult(payload),
+};
+
+/**
+ * @function isKitEventType
+ *
+ * True if the event type is one this client knows how to validate.
+ */
+export function isKitEventType(eventType: string): eventType is KitEventType {
+    return Object.prototype.hasOwnProperty.call(validators, eventType);
+}
+
+/**
+ * @function parseKitMessage
+ *
+ * Checks the envelope of a message received from the stream, whatever its event type and payload.
+ * Messages echoed back to Kit by the streaming library (`messageRecipient === "kit"`) are ignored.
+ */
+export function parseKitMessage(raw: unknown): KitMessageParseResult {
+    if (!isObject(raw))
+        return { kind: "malformed", error: "message is not an object", raw };
+
+    if (raw.messageRecipient === "kit")
+        return { kind: "ignored", raw };
+
+    if (typeof raw.event_type !== "string" || raw.event_type.length === 0)
+        return { kind: "malformed", error: "'event_type' is missing", raw };
+
+    return { kind: "message", message: { event_type: raw.event_type, payload: raw.payload } };
+}
+
+/**
+ * @function parseKitEvent
+ *
+ * Validates a message received from the stream against the USD Viewer protocol.
+ */
+export function parseKitEvent(raw: unknown): KitEventParseResult {
+    const result = parseKitMessage(raw);
+    if (result.kind !== "message")
+        return result;
+
+    const { event_type: eventType, payload } = result.message;
+    if (!isKitEventType(eventType))
+        return { kind: "unknown", message: result.message };
+
+    if (!isObject(payload))
+        return { kind: "malformed", error: `${eventType}: 'payload' must be an object`, raw };
+
+    const error = validators[eventType](payload);
+    if (error)
+        return { kind: "malformed", error: `${eventType}: ${error}`, raw };
+
+    return { kind: "event", event: { event_type: eventType, payload } as KitEvent };
+}
+
+/**
+ * @function createKitRequest
+ *
+ * Builds a typed message for Kit.
+ */
+export function createKitRequest<K extends KitRequestType>(eventType: K, payload: KitRequestPayloads[K]): KitRequest {
+    return { event_type: eventType, payload } as KitRequest;
+}
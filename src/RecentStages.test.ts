@@ -0,0 +1,103 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addRecentStage, loadRecentStages, maxRecentStages, saveRecentStages } from './RecentStages';
+
+const stage = (index: number) => ({ name: `Stage ${index}`, url: `/data/stage${index}.usd` });
+
+describe("addRecentStage", () => {
+    it("adds the stage to the front", () => {
+        expect(addRecentStage([stage(1)], stage(2))).toEqual([stage(2), stage(1)]);
+    });
+
+    it("moves a stage opened again to the front, under its new name", () => {
+        const renamed = { name: "Renamed", url: "/data/./stage1.usd" };
+        expect(addRecentStage([stage(2), stage(1)], renamed)).toEqual([renamed, stage(2)]);
+    });
+
+    it("matches entries by URL with the configured tokens", () => {
+        const byToken = { name: "Sample", url: "${samples}/stage1.usd" };
+        expect(addRecentStage([stage(1)], byToken, { samples: "/data" })).toEqual([byToken]);
+        expect(addRecentStage([stage(1)], byToken)).toEqual([byToken, stage(1)]);
+    });
+
+    it("keeps stages whose paths differ in case", () => {
+        const upper = { name: "Upper", url: "/data/Stage1.usd" };
+        expect(addRecentStage([stage(1)], upper)).toEqual([upper, stage(1)]);
+    });
+
+    it(`keeps the ${maxRecentStages} most recent stages`, () => {
+        let stages = [stage(0)];
+        for (let index = 1; index <= maxRecentStages; index++)
+            stages = addRecentStage(stages, stage(index));
+        expect(stages).toHaveLength(maxRecentStages);
+        expect(stages[0]).toEqual(stage(maxRecentStages));
+        expect(stages).not.toContainEqual(stage(0));
+    });
+
+    it("stores only the name and URL", () => {
+        const asset = { ...stage(1), description: "Racks" };
+        expect(addRecentStage([], asset)).toEqual([stage(1)]);
+    });
+});
+
+describe("loadRecentStages and saveRecentStages", () => {
+    let storage: Map<string, string>;
+
+    beforeEach(() => {
+        storage = new Map();
+        vi.stubGlobal("window", { localStorage: {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+        } });
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it("reads back the saved stages", () => {
+        saveRecentStages([stage(1), stage(2)]);
+        expect(loadRecentStages()).toEqual([stage(1), stage(2)]);
+    });
+
+    it("reads nothing before anything is saved", () => {
+        expect(loadRecentStages()).toEqual([]);
+    });
+
+    it("drops invalid entries and entries beyond the maximum", () => {
+        storage.set("usdViewer.recentStages", JSON.stringify([
+            { name: "No URL" }, null, 3, { ...stage(1), extra: true },
+            ...Array.from({ length: maxRecentStages + 2 }, (_, index) => stage(index + 2)),
+        ]));
+        const stages = loadRecentStages();
+        expect(stages[0]).toEqual(stage(1));
+        expect(stages).toHaveLength(maxRecentStages);
+    });
+
+    it.each([["not JSON"], ['{"url": "/data/stage1.usd"}']])("reads nothing from %s", (stored) => {
+        storage.set("usdViewer.recentStages", stored);
+        expect(loadRecentStages()).toEqual([]);
+    });
+
+    it("only logs when storage is not available", () => {
+        vi.stubGlobal("window", { localStorage: {
+            getItem: () => { throw new Error("Denied"); },
+            setItem: () => { throw new Error("Denied"); },
+        } });
+        expect(() => saveRecentStages([stage(1)])).not.toThrow();
+        expect(loadRecentStages()).toEqual([]);
+        expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,68 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * The stages most recently opened, kept in the browser's local storage.
+ */
+import { USDAssetType } from './StageLifecycle';
+import { UrlTokens, normalizeStageUrl } from './StageUrl';
+
+export const maxRecentStages = 10;
+
+const storageKey = "usdViewer.recentStages";
+
+/**
+ * @function loadRecentStages
+ *
+ * Read the stored list, most recent first. Invalid entries are dropped.
+ */
+export function loadRecentStages(): USDAssetType[] {
+    try {
+        const stored: unknown = JSON.parse(window.localStorage.getItem(storageKey) ?? "[]");
+        if (!Array.isArray(stored))
+            return [];
+        return stored
+            .filter((item): item is USDAssetType => typeof item?.name === "string" && typeof item?.url === "string")
+            .map(item => ({ name: item.name, url: item.url }))
+            .slice(0, maxRecentStages);
+    }
+    catch (error) {
+        console.warn("Could not read the recent stages:", error);
+        return [];
+    }
+}
+
+/**
+ * @function saveRecentStages
+ *
+ * Store the list. Failures, e.g. when storage is disabled, are only logged.
+ */
+export function saveRecentStages(recentStages: USDAssetType[]): void {
+    try {
+        window.localStorage.setItem(storageKey, JSON.stringify(recentStages));
+    }
+    catch (error) {
+        console.warn("Could not save the recent stages:", error);
+    }
+}
+
+/**
+ * @function addRecentStage
+ *
+ * The list with a stage moved or added to the front, dropping the oldest beyond maxRecentStages.
+ * Entries whose URL normalizes to the same one are replaced.
+ */
+export function addRecentStage(recentStages: USDAssetType[], asset: USDAssetType, tokens: UrlTokens = {}): USDAssetType[] {
+    const entry = { name: asset.name, url: asset.url };
+    const key = normalizeStageUrl(asset.url, tokens);
+    return [entry, ...recentStages.filter(item => normalizeStageUrl(item.url, tokens) !== key)].slice(0, maxRecentStages);
+}
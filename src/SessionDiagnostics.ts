@@ -0,0 +1,60 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Plain-text report of the session, for attaching to bug reports: the stage lifecycle, the
+ * stages that failed to load and the most recent messages exchanged with Kit.
+ */
+import { KitMessageLogEntry } from './KitMessageLog';
+import { StageLifecycleState } from './StageLifecycle';
+
+// Messages from the end of the message log included in the report
+const reportedMessages = 50;
+// Characters of a message included in the report
+const maxMessageLength = 500;
+
+export interface SessionDiagnosticsInfo {
+    source: string;
+    lifecycle: StageLifecycleState;
+    messages: readonly KitMessageLogEntry[];
+    now: number;
+}
+
+/**
+ * @function formatDiagnostics
+ *
+ * The diagnostics report of the session.
+ */
+export function formatDiagnostics(info: SessionDiagnosticsInfo): string {
+    const { phase, loadedAsset, failures } = info.lifecycle;
+    const time = (timestamp: number | Date) => new Date(timestamp).toISOString();
+    const lines = [
+        "USD Viewer session diagnostics",
+        `Time: ${time(info.now)}`,
+        `Stream source: ${info.source}`,
+        `User agent: ${navigator.userAgent}`,
+        `Stage phase: ${phase.name}`,
+        `Loaded stage: ${loadedAsset ? `${loadedAsset.name} (${loadedAsset.url})` : "none"}`,
+        "",
+        `Stage load failures (${failures.length}):`,
+        ...failures.map(failure => `  ${time(failure.failedAt)}  ${failure.asset.name} (${failure.asset.url}): ${failure.error}`),
+        "",
+        `Last ${Math.min(reportedMessages, info.messages.length)} Kit messages:`,
+        ...info.messages.slice(-reportedMessages).map(entry => {
+            let message = typeof entry.message === "string" ? entry.message : JSON.stringify(entry.message);
+            if (message.length > maxMessageLength)
+                message = `${message.slice(0, maxMessageLength)}…`;
+            return `  ${time(entry.timestamp)}  ${entry.direction === "outgoing" ? "→" : "←"} ${message}`;
+        })
+    ];
+    return lines.join('\n') + '\n';
+}
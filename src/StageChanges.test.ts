@@ -0,0 +1,63 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { describe, expect, it } from 'vitest';
+import { isSameOrDescendant, movePath, movePaths, parentPath } from './StageChanges';
+
+describe("parentPath", () => {
+    it.each([
+        ["/World/Cube", "/World"],
+        ["/World", "/"],
+        ["/", "/"],
+    ])("the parent of %s is %s", (path, parent) => {
+        expect(parentPath(path)).toBe(parent);
+    });
+});
+
+describe("isSameOrDescendant", () => {
+    it.each([
+        ["/World", "/World", true],
+        ["/World/Cube", "/World", true],
+        ["/World/Cube/Edge", "/World", true],
+        ["/World", "/", true],
+        ["/Worlds", "/World", false],
+        ["/World2/Cube", "/World", false],
+        ["/World", "/World/Cube", false],
+    ])("%s under %s: %s", (path, ancestor, expected) => {
+        expect(isSameOrDescendant(path, ancestor)).toBe(expected);
+    });
+});
+
+describe("movePath", () => {
+    it.each([
+        ["the renamed prim", "/World/Cube", "/World/Cube", "/World/Box", "/World/Box"],
+        ["a descendant of the renamed prim", "/World/Cube/Edge", "/World/Cube", "/World/Box", "/World/Box/Edge"],
+        ["a sibling with the same prefix", "/World/Cubes", "/World/Cube", "/World/Box", "/World/Cubes"],
+        ["an ancestor", "/World", "/World/Cube", "/World/Box", "/World"],
+        ["the removed prim", "/World/Cube", "/World/Cube", null, null],
+        ["a descendant of the removed prim", "/World/Cube/Edge", "/World/Cube", null, null],
+        ["a prim next to the removed prim", "/World/Sphere", "/World/Cube", null, "/World/Sphere"],
+    ])("%s", (_name, path, from, to, expected) => {
+        expect(movePath(path, from, to)).toBe(expected);
+    });
+});
+
+describe("movePaths", () => {
+    const paths = ["/World/Cube", "/World/Cube/Edge", "/World/Sphere"];
+
+    it("moves the renamed paths and keeps the others in order", () => {
+        expect(movePaths(paths, "/World/Cube", "/World/Box")).toEqual(["/World/Box", "/World/Box/Edge", "/World/Sphere"]);
+    });
+
+    it("drops the removed paths", () => {
+        expect(movePaths(new Set(paths), "/World/Cube", null)).toEqual(["/World/Sphere"]);
+    });
+});
@@ -0,0 +1,62 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Path rules for applying the stageChanged events of Kit to the state kept by the client:
+ * a removed prim takes its descendants with it, and a renamed prim moves them along.
+ */
+
+/**
+ * @function parentPath
+ *
+ * The path of the parent of a prim; '/' for root prims.
+ */
+export function parentPath(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index > 0 ? path.slice(0, index) : '/';
+}
+
+/**
+ * @function isSameOrDescendant
+ *
+ * True if `path` is `ancestor` itself or below it.
+ */
+export function isSameOrDescendant(path: string, ancestor: string): boolean {
+    return path === ancestor || path.startsWith(ancestor === '/' ? '/' : ancestor + '/');
+}
+
+/**
+ * @function movePath
+ *
+ * Where a path ends up after the prim at `from` was renamed to `to`, or removed when `to`
+ * is null. Returns null for paths that were removed and the path itself for unaffected paths.
+ */
+export function movePath(path: string, from: string, to: string | null): string | null {
+    if (!isSameOrDescendant(path, from))
+        return path;
+    return to === null ? null : to + path.slice(from.length);
+}
+
+/**
+ * @function movePaths
+ *
+ * Applies movePath to a list of paths, dropping the removed ones.
+ */
+export function movePaths(paths: Iterable<string>, from: string, to: string | null): string[] {
+    const moved: string[] = [];
+    for (const path of paths) {
+        const result = movePath(path, from, to);
+        if (result !== null)
+            moved.push(result);
+    }
+    return moved;
+}
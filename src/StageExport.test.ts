@@ -0,0 +1,131 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { describe, expect, it, vi } from 'vitest';
+import KitClient from './KitClient';
+import { USDPrimType } from './Protocol';
+import { ExportedPrim, countPrims, toCSV, toJSON, walkStage } from './StageExport';
+
+const prim = (path: string, type: string, children: ExportedPrim[] = [], visibility: ExportedPrim["visibility"] = "visible"): ExportedPrim =>
+    ({ path, name: path.split('/').pop() ?? '', type, visibility, children });
+
+const prims = [
+    prim("/World", "Xform", [
+        prim("/World/Cube", "Mesh", [], "invisible"),
+        prim("/World/Sign", "Mesh", [prim("/World/Sign/Text", "", [], "inherited")]),
+    ]),
+];
+
+// Children of the prims of a stage, by path; Kit leaves out `children` for prims without any
+const stage: { [path: string]: USDPrimType[] } = {
+    "/World": [{ path: "/World/Cube", name: "Cube", type: "Mesh", visible: false, children: [] }, { path: "/World/Sign", type: "Mesh", children: [] }],
+    "/World/Cube": [{ path: "/World/Cube/Edge", type: "BasisCurves" }],
+    "/World/Sign": [],
+};
+
+/**
+ * @function createKit
+ *
+ * A Kit client answered by a Kit that serves the children of the stage above.
+ */
+function createKit(sent: string[] = []): KitClient {
+    const kit: KitClient = new KitClient((message) => {
+        if (message.event_type !== "getChildrenRequest")
+            return;
+        sent.push(message.payload.prim_path);
+        const prim_path = message.payload.prim_path;
+        setTimeout(() => kit.handleEvent({ event_type: "getChildrenResponse", payload: { prim_path, children: stage[prim_path] } }), 0);
+    });
+    return kit;
+}
+
+describe("walkStage", () => {
+    it("fetches the descendants of the roots with their visibility", async () => {
+        const sent: string[] = [];
+        const onProgress = vi.fn();
+        const result = await walkStage(createKit(sent), [{ path: "/World", type: "Xform", children: [] }], {
+            hiddenPaths: new Set(), onProgress, signal: new AbortController().signal
+        });
+
+        expect(result).toEqual([
+            { path: "/World", name: "World", type: "Xform", visibility: "", children: [
+                { path: "/World/Cube", name: "Cube", type: "Mesh", visibility: "invisible", children: [
+                    { path: "/World/Cube/Edge", name: "Edge", type: "BasisCurves", visibility: "inherited", children: [] },
+                ] },
+                { path: "/World/Sign", name: "Sign", type: "Mesh", visibility: "", children: [] },
+            ] },
+        ]);
+        // prims reported without children are not asked for them
+        expect(sent.sort()).toEqual(["/World", "/World/Cube", "/World/Sign"]);
+        expect(onProgress).toHaveBeenLastCalledWith(4);
+    });
+
+    it("marks roots under a hidden prim as inheriting invisibility", async () => {
+        const result = await walkStage(createKit(), [{ path: "/World/Sign", visible: true, children: [] }], {
+            hiddenPaths: new Set(["/World"]), onProgress: () => undefined, signal: new AbortController().signal
+        });
+        expect(result?.[0].visibility).toBe("inherited");
+    });
+
+    it("resolves to null when aborted", async () => {
+        const abort = new AbortController();
+        const walk = walkStage(createKit(), [{ path: "/World", children: [] }], {
+            hiddenPaths: new Set(), onProgress: () => abort.abort(), signal: abort.signal
+        });
+        await expect(walk).resolves.toBeNull();
+    });
+});
+
+describe("countPrims", () => {
+    it("counts the prims at every depth", () => {
+        expect(countPrims(prims)).toBe(4);
+        expect(countPrims([])).toBe(0);
+    });
+});
+
+describe("toJSON", () => {
+    it("nests the prims and leaves out the children of leaves", () => {
+        expect(JSON.parse(toJSON("./stage.usd", prims))).toEqual({
+            stage: "./stage.usd",
+            prims: [{ path: "/World", name: "World", type: "Xform", visibility: "visible", children: [
+                { path: "/World/Cube", name: "Cube", type: "Mesh", visibility: "invisible" },
+                { path: "/World/Sign", name: "Sign", type: "Mesh", visibility: "visible", children: [
+                    { path: "/World/Sign/Text", name: "Text", type: "", visibility: "inherited" },
+                ] },
+            ] }],
+        });
+    });
+});
+
+describe("toCSV", () => {
+    it("lists parents before their children", () => {
+        expect(toCSV(prims)).toBe([
+            "path,name,type,visibility",
+            "/World,World,Xform,visible",
+            "/World/Cube,Cube,Mesh,invisible",
+            "/World/Sign,Sign,Mesh,visible",
+            "/World/Sign/Text,Text,,inherited",
+            "",
+        ].join("\r\n"));
+    });
+
+    it("quotes values with commas, quotes and line breaks", () => {
+        const csv = toCSV([prim('/World/Say_"Hi"', "Mesh"), { ...prim("/World/A", "Mesh"), name: "A, B\nC" }]);
+        expect(csv.split("\r\n").slice(1, 3)).toEqual([
+            '"/World/Say_""Hi""","Say_""Hi""",Mesh,visible',
+            '/World/A,"A, B\nC",Mesh,visible',
+        ]);
+    });
+
+    it("writes only the header for an empty export", () => {
+        expect(toCSV([])).toBe("path,name,type,visibility\r\n");
+    });
+});
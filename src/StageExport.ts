@@ -0,0 +1,181 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Export of the prim hierarchy: the stage is walked through Kit with getChildrenRequest and
+ * written as nested JSON or as a flat CSV list.
+ */
+import KitClient from './KitClient';
+import { USDPrimType } from './Protocol';
+import { ancestorPaths } from './PrimSearch';
+
+export type StageExportFormat = "json" | "csv";
+
+// The whole stage, or the subtrees of the selected prims
+export type StageExportScope = "stage" | "selection";
+
+// "inherited" prims are hidden by an invisible ancestor; "" if Kit does not report visibility
+export type ExportedVisibility = "visible" | "invisible" | "inherited" | "";
+
+export interface ExportedPrim {
+    path: string;
+    name: string;
+    type: string;
+    visibility: ExportedVisibility;
+    children: ExportedPrim[];
+}
+
+export interface StageWalkOptions {
+    // Invisible prims known beforehand, to tell whether the walked prims inherit invisibility
+    hiddenPaths: Set<string>;
+    // Called with the number of prims found so far
+    onProgress: (count: number) => void;
+    signal: AbortSignal;
+}
+
+// getChildrenRequest messages in flight at once while walking the stage
+const walkConcurrency = 8;
+
+/**
+ * @function toExportedPrim
+ *
+ * The exported form of a prim reported by Kit, without its children.
+ */
+function toExportedPrim(prim: USDPrimType, isParentHidden: boolean): ExportedPrim {
+    let visibility: ExportedVisibility = "";
+    if (prim.visible === false)
+        visibility = "invisible";
+    else if (isParentHidden)
+        visibility = "inherited";
+    else if (prim.visible === true)
+        visibility = "visible";
+    return { path: prim.path, name: prim.name ?? prim.path.split('/').pop() ?? '', type: prim.type ?? '', visibility, children: [] };
+}
+
+/**
+ * @function walkStage
+ *
+ * Fetch every descendant of the given prims, of every prim type. Resolves to the prims with
+ * their descendants, or to null if the walk was aborted.
+ */
+export async function walkStage(kit: KitClient, roots: USDPrimType[], options: StageWalkOptions): Promise<ExportedPrim[] | null> {
+    const isHidden = (prim: ExportedPrim) => prim.visibility === "invisible" || prim.visibility === "inherited";
+    let count = 0;
+    // set once a request failed, so the other workers stop too
+    let failed = false;
+
+    // prims whose children are still to be fetched; Kit leaves out `children` for prims without any
+    const queue: { prim: ExportedPrim; hasChildren: boolean }[] = [];
+    const result = roots.map(root => {
+        const isParentHidden = ancestorPaths(root.path).some(path => options.hiddenPaths.has(path));
+        const prim = toExportedPrim(root, isParentHidden);
+        queue.push({ prim, hasChildren: root.children !== undefined });
+        return prim;
+    });
+    count += result.length;
+    options.onProgress(count);
+
+    const work = async () => {
+        for (let next = queue.shift(); next; next = queue.shift()) {
+            if (options.signal.aborted || failed)
+                return;
+            if (!next.hasChildren)
+                continue;
+            const parent = next.prim;
+            const response = await kit.request("getChildrenRequest", { prim_path: parent.path, filters: [] }, { signal: options.signal });
+            for (const child of Array.isArray(response.children) ? response.children : []) {
+                const prim = toExportedPrim(child, isHidden(parent));
+                parent.children.push(prim);
+                queue.push({ prim, hasChildren: child.children !== undefined });
+            }
+            count += parent.children.length;
+            options.onProgress(count);
+        }
+    };
+
+    // workers stop when the queue is empty, so more are started while it grows
+    const workers = new Set<Promise<void>>();
+    try {
+        while (queue.length > 0 && !options.signal.aborted) {
+            while (workers.size < walkConcurrency && queue.length > workers.size) {
+                const worker: Promise<void> = work().finally(() => workers.delete(worker));
+                workers.add(worker);
+            }
+            await Promise.race(workers);
+        }
+        await Promise.all(workers);
+    }
+    catch (error) {
+        failed = true;
+        if (!options.signal.aborted)
+            throw error;
+    }
+    return options.signal.aborted ? null : result;
+}
+
+/**
+ * @function countPrims
+ *
+ * The number of prims in exported trees.
+ */
+export function countPrims(prims: ExportedPrim[]): number {
+    return prims.reduce((count, prim) => count + 1 + countPrims(prim.children), 0);
+}
+
+/**
+ * @function toJSON
+ *
+ * Nested JSON of the exported prims. Leaves have no `children`.
+ */
+export function toJSON(stageUrl: string, prims: ExportedPrim[]): string {
+    const strip = (prim: ExportedPrim): object => ({
+        path: prim.path,
+        name: prim.name,
+        type: prim.type,
+        visibility: prim.visibility,
+        ...(prim.children.length > 0 && { children: prim.children.map(strip) })
+    });
+    return JSON.stringify({ stage: stageUrl, prims: prims.map(strip) }, null, 2);
+}
+
+/**
+ * @function toCSV
+ *
+ * One line per prim, parents before their children.
+ */
+export function toCSV(prims: ExportedPrim[]): string {
+    const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = ["path,name,type,visibility"];
+    const visit = (items: ExportedPrim[]) => {
+        for (const prim of items) {
+            lines.push([prim.path, prim.name, prim.type, prim.visibility].map(escape).join(','));
+            visit(prim.children);
+        }
+    };
+    visit(prims);
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * @function downloadText
+ *
+ * Have the browser save text as a file.
+ */
+export function downloadText(fileName: string, text: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // revoking the URL right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,145 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { describe, expect, it } from 'vitest';
+import {
+    StageLifecycleEffect,
+    StageLifecycleEvent,
+    StageLifecycleState,
+    StagePhase,
+    USDAssetType,
+    createStageLifecycle,
+    maxStageLoadFailures,
+    transitionStage
+} from './StageLifecycle';
+
+const sample: USDAssetType = { name: "Sample 1", url: "./samples/stage01.usd" };
+const other: USDAssetType = { name: "Sample 2", url: "./samples/stage02.usd" };
+const progress = { fraction: null, activity: '', startedAt: 0 };
+
+const state = (phase: StagePhase, loadedAsset: USDAssetType | null = null): StageLifecycleState =>
+    ({ phase, loadedAsset, failures: [] });
+
+const loading = (asset: USDAssetType | null, loadedAsset: USDAssetType | null = null): StageLifecycleState =>
+    state({ name: "loading", asset, progress }, loadedAsset);
+
+const reported = (url: string, loadingState: string, asset: USDAssetType | null = null, isLoadedAsset = false): StageLifecycleEvent =>
+    ({ type: "stageReported", url, loadingState, asset, isLoadedAsset, selectedAsset: sample, now: 1 });
+
+describe("transitionStage", () => {
+    const cases: [string, StageLifecycleState, StageLifecycleEvent, StagePhase, StageLifecycleEffect[]][] = [
+        ["logging in keeps connecting",
+            state({ name: "connecting", waitingForLogin: true }), { type: "loggedIn" },
+            { name: "connecting", waitingForLogin: false }, []],
+        ["a started stream waits for Kit",
+            state({ name: "connecting", waitingForLogin: false }), { type: "streamStarted" },
+            { name: "waitingForKit" }, [{ type: "waitForKit" }]],
+        ["assets cannot be opened before Kit is ready",
+            state({ name: "connecting", waitingForLogin: false }), { type: "openAsset", asset: sample, now: 1 },
+            { name: "connecting", waitingForLogin: false }, []],
+        ["a ready Kit is asked about its stage",
+            state({ name: "waitingForKit" }), { type: "kitReady" },
+            { name: "checkingStage" }, [{ type: "queryLoadingState" }]],
+        ["Kit not answering makes it unavailable",
+            state({ name: "waitingForKit" }), { type: "kitNotReady", error: "No answer" },
+            { name: "kitUnavailable", error: "No answer" }, []],
+        ["retrying waits for Kit again",
+            state({ name: "kitUnavailable", error: "No answer" }), { type: "retryKit" },
+            { name: "waitingForKit" }, [{ type: "waitForKit" }]],
+        ["the selected asset is opened if Kit has no stage",
+            state({ name: "checkingStage" }), reported("", "idle"),
+            { name: "loading", asset: sample, progress: { ...progress, startedAt: 1 } },
+            [{ type: "showAsset", asset: sample }, { type: "openStage", asset: sample }]],
+        ["a stage Kit is still loading is waited for",
+            state({ name: "checkingStage" }), reported("/kit/stage02.usd", "loading", other),
+            { name: "loading", asset: other, progress: { ...progress, startedAt: 1 } }, [{ type: "showAsset", asset: other }]],
+        ["a listed stage Kit opened by itself is kept",
+            state({ name: "checkingStage" }), reported("/kit/stage02.usd", "idle", other),
+            { name: "loaded", asset: other }, [{ type: "showAsset", asset: other }, { type: "fetchChildren" }]],
+        ["a stage Kit opened by itself is kept, even if it is not listed",
+            state({ name: "checkingStage" }), reported("/kit/plant.usd", "idle"),
+            { name: "loaded", asset: { name: "plant.usd", url: "/kit/plant.usd" } },
+            [{ type: "showAsset", asset: { name: "plant.usd", url: "/kit/plant.usd" } }, { type: "fetchChildren" }]],
+        ["progress is reported while loading",
+            loading(sample), { type: "progressAmount", fraction: 0.5, now: 2 },
+            { name: "loading", asset: sample, progress: { ...progress, fraction: 0.5 } }, []],
+        ["an opened stage is checked with Kit",
+            loading(sample), { type: "stageOpened", url: sample.url, isLoadingAsset: true },
+            { name: "loading", asset: sample, progress }, [{ type: "queryLoadingState" }]],
+        ["a late result of another stage does not check with Kit",
+            loading(sample, other), { type: "stageOpened", url: other.url, isLoadingAsset: false },
+            { name: "loading", asset: sample, progress }, []],
+        ["a late failure of another stage is ignored",
+            loading(sample, other), { type: "stageFailed", url: "./samples/broken.usd", error: "Failed", isLoadingAsset: false, now: 2 },
+            { name: "loading", asset: sample, progress }, []],
+        ["a failure moves the picker back to the loaded asset",
+            loading(sample, other), { type: "stageFailed", url: sample.url, error: "Failed", isLoadingAsset: true, now: 2 },
+            { name: "failed", asset: sample, error: "Failed", failedAt: 2 }, [{ type: "showAsset", asset: other }]],
+        ["a failure without a loaded asset leaves the picker",
+            loading(sample), { type: "stageFailed", url: sample.url, error: "Failed", isLoadingAsset: true, now: 2 },
+            { name: "failed", asset: sample, error: "Failed", failedAt: 2 }, []],
+        ["Kit reporting no open stage fails the load",
+            loading(sample), reported("", "idle"),
+            { name: "failed", asset: sample, error: "Kit reported that no stage is open.", failedAt: 1 }, []],
+        ["the loaded stage is listed",
+            loading(sample), reported("/kit/samples/stage01.usd", "idle", sample),
+            { name: "loaded", asset: sample }, [{ type: "showAsset", asset: sample }, { type: "fetchChildren" }]],
+        ["a failed stage can be retried",
+            state({ name: "failed", asset: sample, error: "Failed", failedAt: 2 }, other), { type: "openAsset", asset: sample, now: 3 },
+            { name: "loading", asset: sample, progress: { ...progress, startedAt: 3 } },
+            [{ type: "showAsset", asset: sample }, { type: "openStage", asset: sample }]],
+        ["events of other phases leave a loaded stage",
+            state({ name: "loaded", asset: sample }, sample), { type: "stageFailed", url: sample.url, error: "Failed", isLoadingAsset: true, now: 2 },
+            { name: "loaded", asset: sample }, []],
+        ["a stage Kit opened after the load is checked with Kit",
+            state({ name: "loaded", asset: sample }, sample), { type: "stageOpened", url: other.url, isLoadingAsset: true },
+            { name: "checkingStage" }, [{ type: "queryLoadingState" }]],
+        ["a stage Kit opened after a failure is checked with Kit",
+            state({ name: "failed", asset: sample, error: "Failed", failedAt: 2 }, other), { type: "stageOpened", url: other.url, isLoadingAsset: true },
+            { name: "checkingStage" }, [{ type: "queryLoadingState" }]],
+        ["another stage Kit reports after the load is loaded",
+            state({ name: "loaded", asset: sample }, sample), reported("/kit/stage02.usd", "idle", other),
+            { name: "loading", asset: other, progress: { ...progress, startedAt: 1 } },
+            [{ type: "showAsset", asset: other }, { type: "queryLoadingState" }]],
+        ["the loaded stage reported again is kept",
+            state({ name: "loaded", asset: sample }, sample), reported("/kit/samples/stage01.usd", "idle", sample, true),
+            { name: "loaded", asset: sample }, []],
+        ["the loaded stage Kit reports after a failure is kept",
+            state({ name: "failed", asset: sample, error: "Failed", failedAt: 2 }, other), reported("/kit/stage02.usd", "idle", other, true),
+            { name: "failed", asset: sample, error: "Failed", failedAt: 2 }, []],
+    ];
+
+    it.each(cases)("%s", (_name, before, event, phase, effects) => {
+        const transition = transitionStage(before, event);
+        expect(transition.state.phase).toEqual(phase);
+        expect(transition.effects).toEqual(effects);
+    });
+
+    it("keeps the previously loaded asset while another one loads", () => {
+        const { state: after } = transitionStage(state({ name: "loaded", asset: other }, other), { type: "openAsset", asset: sample, now: 1 });
+        expect(after.loadedAsset).toEqual(other);
+        expect(transitionStage(after, reported(sample.url, "idle", sample)).state.loadedAsset).toEqual(sample);
+    });
+
+    it("records the failures of the session, up to maxStageLoadFailures", () => {
+        let current = loading(sample);
+        for (let now = 1; now <= maxStageLoadFailures + 2; now++) {
+            current = transitionStage(current, { type: "stageFailed", url: sample.url, error: `Failure ${now}`, isLoadingAsset: true, now }).state;
+            current = transitionStage(current, { type: "openAsset", asset: sample, now }).state;
+        }
+        expect(current.failures).toHaveLength(maxStageLoadFailures);
+        expect(current.failures[0]).toEqual({ asset: sample, error: "Failure 3", failedAt: 3 });
+    });
+
+    it("starts connecting without failures", () => {
+        expect(createStageLifecycle(true)).toEqual(state({ name: "connecting", waitingForLogin: true }));
+    });
+});
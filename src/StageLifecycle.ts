@@ -0,0 +1,235 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Lifecycle of the stage shown by Window, modelled as a pure state machine:
+ *
+ *     connecting → waitingForKit → checkingStage → loading → loaded
+ *                        ↓                            ↓
+ *                 kitUnavailable                   failed
+ *
+ * `transitionStage` returns the next state and the side effects Window has to perform;
+ * it never sends messages or touches React itself. Events that are not meaningful in the
+ * current phase leave the state unchanged. A failed stage is left by opening an asset,
+ * such as the failed one again or the previously loaded one. A loaded or failed stage is
+ * also left when Kit opens another stage by itself, for instance for another client.
+ */
+import { LoadingProgressInfo } from './LoadingProgress';
+
+export interface USDAssetType {
+    name: string;
+    url: string;
+}
+
+export type StagePhase =
+    | { name: "connecting"; waitingForLogin: boolean }
+    | { name: "waitingForKit" }
+    | { name: "kitUnavailable"; error: string }
+    | { name: "checkingStage" }
+    | { name: "loading"; asset: USDAssetType | null; progress: LoadingProgressInfo }
+    | { name: "loaded"; asset: USDAssetType }
+    | { name: "failed"; asset: USDAssetType; error: string; failedAt: number };
+
+export interface StageLoadFailure {
+    asset: USDAssetType;
+    error: string;
+    failedAt: number;
+}
+
+export interface StageLifecycleState {
+    phase: StagePhase;
+    // The most recently loaded asset, kept while another asset loads
+    loadedAsset: USDAssetType | null;
+    // Stages that failed to load during the session, oldest first
+    failures: StageLoadFailure[];
+}
+
+// Failures kept for the session diagnostics
+export const maxStageLoadFailures = 20;
+
+export type StageLifecycleEvent =
+    | { type: "loggedIn" }
+    | { type: "streamStarted" }
+    | { type: "kitReady" }
+    | { type: "kitNotReady"; error: string }
+    | { type: "retryKit" }
+    // `asset` is the catalog entry matching the reported url, if any; `isLoadedAsset` is false if
+    // `url` names another stage than the loaded asset
+    | { type: "stageReported"; url: string; loadingState: string; asset: USDAssetType | null; isLoadedAsset: boolean; selectedAsset: USDAssetType; now: number }
+    | { type: "openAsset"; asset: USDAssetType; now: number }
+    // `isLoadingAsset` is false if `url` names another stage than the asset being loaded,
+    // such as one whose load was cancelled or replaced
+    | { type: "stageOpened"; url: string; isLoadingAsset: boolean }
+    | { type: "stageFailed"; url: string; error: string; isLoadingAsset: boolean; now: number }
+    | { type: "progressAmount"; fraction: number; now: number }
+    | { type: "progressActivity"; text: string; now: number };
+
+export type StageLifecycleEffect =
+    | { type: "waitForKit" }
+    | { type: "queryLoadingState" }
+    | { type: "openStage"; asset: USDAssetType }
+    | { type: "showAsset"; asset: USDAssetType }
+    | { type: "fetchChildren" };
+
+export interface StageTransition {
+    state: StageLifecycleState;
+    effects: StageLifecycleEffect[];
+}
+
+/**
+ * @function createStageLifecycle
+ *
+ * The state before the stream has started.
+ */
+export function createStageLifecycle(waitingForLogin: boolean): StageLifecycleState {
+    return { phase: { name: "connecting", waitingForLogin }, loadedAsset: null, failures: [] };
+}
+
+/**
+ * @function assetFromUrl
+ *
+ * Describes a stage that is not part of the asset list by its file name.
+ */
+export function assetFromUrl(url: string): USDAssetType {
+    return { name: url.split(/[/\\]/).pop() || url, url };
+}
+
+const unchanged = (state: StageLifecycleState): StageTransition => ({ state, effects: [] });
+
+const withPhase = (state: StageLifecycleState, phase: StagePhase, effects: StageLifecycleEffect[] = []): StageTransition =>
+    ({ state: { ...state, phase }, effects });
+
+const startLoading = (state: StageLifecycleState, asset: USDAssetType, now: number): StageTransition =>
+    withPhase(
+        state,
+        { name: "loading", asset, progress: { fraction: null, activity: '', startedAt: now } },
+        [{ type: "showAsset", asset }, { type: "openStage", asset }]
+    );
+
+const finishLoading = (state: StageLifecycleState, asset: USDAssetType): StageTransition =>
+    ({
+        state: { ...state, phase: { name: "loaded", asset }, loadedAsset: asset },
+        effects: [{ type: "showAsset", asset }, { type: "fetchChildren" }]
+    });
+
+/**
+ * @function failLoading
+ *
+ * Record a failed load. The USD Asset selection goes back to the loaded asset, which Kit may
+ * still have open.
+ */
+const failLoading = (state: StageLifecycleState, asset: USDAssetType, error: string, now: number): StageTransition =>
+    ({
+        state: {
+            ...state,
+            phase: { name: "failed", asset, error, failedAt: now },
+            failures: [...state.failures, { asset, error, failedAt: now }].slice(-maxStageLoadFailures)
+        },
+        effects: state.loadedAsset ? [{ type: "showAsset", asset: state.loadedAsset }] : []
+    });
+
+/**
+ * @function transitionStage
+ *
+ * Computes the next state and the effects to perform for an event.
+ */
+export function transitionStage(state: StageLifecycleState, event: StageLifecycleEvent): StageTransition {
+    const phase = state.phase;
+
+    // the user can pick another asset once Kit is known to be ready
+    if (event.type === "openAsset") {
+        if (phase.name === "connecting" || phase.name === "waitingForKit" || phase.name === "kitUnavailable")
+            return unchanged(state);
+        return startLoading(state, event.asset, event.now);
+    }
+
+    switch (phase.name) {
+        case "connecting":
+            if (event.type === "loggedIn")
+                return withPhase(state, { name: "connecting", waitingForLogin: false });
+            if (event.type === "streamStarted")
+                return withPhase(state, { name: "waitingForKit" }, [{ type: "waitForKit" }]);
+            return unchanged(state);
+
+        case "waitingForKit":
+            if (event.type === "kitReady")
+                return withPhase(state, { name: "checkingStage" }, [{ type: "queryLoadingState" }]);
+            if (event.type === "kitNotReady")
+                return withPhase(state, { name: "kitUnavailable", error: event.error });
+            return unchanged(state);
+
+        case "kitUnavailable":
+            if (event.type === "retryKit")
+                return withPhase(state, { name: "waitingForKit" }, [{ type: "waitForKit" }]);
+            return unchanged(state);
+
+        case "checkingStage":
+            // whatever Kit opened on startup finished loading, or failed to
+            if (event.type === "stageOpened" || event.type === "stageFailed")
+                return withPhase(state, phase, [{ type: "queryLoadingState" }]);
+
+            // Kit is still loading the stage it opened on startup
+            if (event.type === "progressAmount" || event.type === "progressActivity")
+                return transitionStage(withPhase(state, { name: "loading", asset: null, progress: { fraction: null, activity: '', startedAt: event.now } }).state, event);
+
+            if (event.type !== "stageReported")
+                return unchanged(state);
+
+            // nothing is open in Kit yet
+            if (!event.url)
+                return startLoading(state, event.selectedAsset, event.now);
+
+            if (event.loadingState !== "idle") {
+                const asset = event.asset ?? assetFromUrl(event.url);
+                const loading = withPhase(state, { name: "loading", asset, progress: { fraction: null, activity: '', startedAt: event.now } });
+                return { ...loading, effects: [{ type: "showAsset", asset }] };
+            }
+
+            // a stage Kit opened by itself is kept, even if it isn't in the asset list
+            return finishLoading(state, event.asset ?? assetFromUrl(event.url));
+
+        case "loading":
+            // results of an earlier load arriving late
+            if ((event.type === "stageOpened" || event.type === "stageFailed") && !event.isLoadingAsset)
+                return unchanged(state);
+            if (event.type === "progressAmount")
+                return withPhase(state, { ...phase, progress: { ...phase.progress, fraction: event.fraction } });
+            if (event.type === "progressActivity")
+                return withPhase(state, { ...phase, progress: { ...phase.progress, activity: event.text } });
+            if (event.type === "stageOpened")
+                return withPhase(state, phase, [{ type: "queryLoadingState" }]);
+            if (event.type === "stageFailed")
+                return failLoading(state, phase.asset ?? assetFromUrl(event.url), event.error, event.now);
+            if (event.type !== "stageReported" || event.loadingState !== "idle")
+                return unchanged(state);
+
+            if (!event.url)
+                return failLoading(state, phase.asset ?? event.selectedAsset, "Kit reported that no stage is open.", event.now);
+            // stages that aren't in the asset list are accepted, whether Kit opened them by itself or we asked for them
+            return finishLoading(state, event.asset ?? phase.asset ?? assetFromUrl(event.url));
+
+        case "loaded":
+        case "failed":
+            // Kit opened a stage we didn't ask for; find out which one
+            if (event.type === "stageOpened")
+                return withPhase(state, { name: "checkingStage" }, [{ type: "queryLoadingState" }]);
+            if (event.type === "stageReported" && event.url && !event.isLoadedAsset) {
+                const asset = event.asset ?? assetFromUrl(event.url);
+                return withPhase(
+                    state,
+                    { name: "loading", asset, progress: { fraction: null, activity: '', startedAt: event.now } },
+                    [{ type: "showAsset", asset }, { type: "queryLoadingState" }]
+                );
+            }
+            return unchanged(state);
+    }
+}
@@ -0,0 +1,72 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * USD Stage settings the user chooses, kept in the browser's local storage.
+ */
+
+export interface PrimFilterOption {
+    // Filter name understood by getChildrenRequest
+    filter: string;
+    label: string;
+}
+
+// Prim types the USD Stage can list. Selecting none lists every prim.
+export const primFilterOptions: PrimFilterOption[] = [
+    { filter: "USDGeom", label: "Geometry" },
+    { filter: "UsdLux", label: "Lights" },
+    { filter: "Camera", label: "Cameras" },
+    { filter: "UsdShade", label: "Materials" }
+];
+
+export interface StagePreferences {
+    primFilters: string[];
+}
+
+export const defaultStagePreferences: StagePreferences = {
+    primFilters: ["USDGeom"]
+};
+
+const storageKey = "usdViewer.stagePreferences";
+
+/**
+ * @function loadStagePreferences
+ *
+ * Read the stored preferences, falling back to the defaults for anything missing or invalid.
+ */
+export function loadStagePreferences(): StagePreferences {
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(storageKey) ?? "{}");
+        const primFilters = Array.isArray(stored.primFilters)
+            ? stored.primFilters.filter((filter: unknown) => primFilterOptions.some(option => option.filter === filter))
+            : defaultStagePreferences.primFilters;
+        return { primFilters };
+    }
+    catch (error) {
+        console.warn("Could not read the USD Stage preferences:", error);
+        return defaultStagePreferences;
+    }
+}
+
+/**
+ * @function saveStagePreferences
+ *
+ * Store the preferences. Failures, e.g. when storage is disabled, are only logged.
+ */
+export function saveStagePreferences(preferences: StagePreferences): void {
+    try {
+        window.localStorage.setItem(storageKey, JSON.stringify(preferences));
+    }
+    catch (error) {
+        console.warn("Could not save the USD Stage preferences:", error);
+    }
+}
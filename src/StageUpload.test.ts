@@ -0,0 +1,152 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { describe, expect, it } from 'vitest';
+import KitClient, { KitRequestError } from './KitClient';
+import { KitRequest } from './Protocol';
+import { UploadError, maxUploadSize, sha256Hex, toBase64, uploadChunkSize, uploadFileError, uploadStage } from './StageUpload';
+
+// Answers of the Kit below to each upload request; undefined leaves the request unanswered
+interface KitBehavior {
+    begin?: "success" | "error";
+    chunk?: (index: number) => "success" | "error" | undefined;
+    finish?: "success" | "error";
+}
+
+/**
+ * @function createKit
+ *
+ * A Kit client answered by a Kit that behaves as told, recording the messages it was sent.
+ */
+function createKit(behavior: KitBehavior, sent: KitRequest[]): KitClient {
+    const kit: KitClient = new KitClient((message) => {
+        sent.push(message);
+        const answer = (event: Parameters<KitClient["handleEvent"]>[0]) => setTimeout(() => kit.handleEvent(event), 0);
+        switch (message.event_type) {
+            case "beginUploadRequest":
+                if (behavior.begin)
+                    answer({ event_type: "beginUploadResponse", payload: { upload_id: message.payload.upload_id, result: behavior.begin } });
+                break;
+            case "uploadChunkRequest": {
+                const result = (behavior.chunk ?? (() => "success"))(message.payload.index);
+                if (result)
+                    answer({ event_type: "uploadChunkResponse", payload: { upload_id: message.payload.upload_id, index: message.payload.index, result, error: result === "error" ? "Damaged" : undefined } });
+                break;
+            }
+            case "finishUploadRequest":
+                if (behavior.finish)
+                    answer({ event_type: "finishUploadResponse", payload: { upload_id: message.payload.upload_id, result: behavior.finish, url: "/uploads/stage.usd" } });
+                break;
+        }
+    });
+    return kit;
+}
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, index) => index % 251);
+
+const file = (name: string, length: number) => new File([bytes(length)], name);
+
+const decode = (data: string) => Uint8Array.from(atob(data), character => character.charCodeAt(0));
+
+const cancelled = (sent: KitRequest[]) => sent.filter(message => message.event_type === "cancelUpload");
+
+describe("uploadFileError", () => {
+    it.each([["stage.usd"], ["stage.USDA"], ["stage.usdc"], ["stage.usdz"], ["stage.zip"]])("accepts %s", (name) => {
+        expect(uploadFileError(file(name, 10))).toBeNull();
+    });
+
+    it.each([
+        ["other extensions", file("stage.obj", 10), /not a \.usd/],
+        ["empty files", file("stage.usd", 0), /is empty/],
+        ["files that are too large", { name: "stage.usd", size: maxUploadSize + 1 } as File, /larger than 256 MB/],
+    ])("rejects %s", (_name, item, message) => {
+        expect(uploadFileError(item)).toMatch(message);
+    });
+});
+
+describe("toBase64", () => {
+    it.each([[0], [1], [0x8000], [0x8000 * 2 + 3]])("encodes %i bytes", (length) => {
+        expect(decode(toBase64(bytes(length)))).toEqual(bytes(length));
+    });
+});
+
+describe("sha256Hex", () => {
+    it("is the hex digest of the bytes", async () => {
+        expect(await sha256Hex(new TextEncoder().encode("abc"))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    });
+});
+
+describe("uploadStage", () => {
+    const size = uploadChunkSize * 5 + 10;
+    const options = (signal = new AbortController().signal, progress: number[] = []) =>
+        ({ onProgress: (sent: number) => progress.push(sent), signal });
+
+    it("sends the file in checked chunks and resolves to the URL Kit stored it at", async () => {
+        const sent: KitRequest[] = [];
+        const progress: number[] = [];
+        const url = await uploadStage(createKit({ begin: "success", finish: "success" }, sent), file("stage.usd", size), options(undefined, progress));
+
+        expect(url).toBe("/uploads/stage.usd");
+        const begin = sent[0];
+        expect(begin.event_type).toBe("beginUploadRequest");
+        expect(begin.payload).toMatchObject({ file_name: "stage.usd", size, chunk_count: 6, sha256: await sha256Hex(bytes(size)) });
+
+        const chunks = sent.filter(message => message.event_type === "uploadChunkRequest").map(message => message.payload as { index: number; data: string; sha256: string });
+        expect(chunks.map(chunk => chunk.index).sort()).toEqual([0, 1, 2, 3, 4, 5]);
+        const received = chunks.sort((a, b) => a.index - b.index).flatMap(chunk => Array.from(decode(chunk.data)));
+        expect(Uint8Array.from(received)).toEqual(bytes(size));
+        expect(chunks[5].sha256).toBe(await sha256Hex(bytes(size).subarray(uploadChunkSize * 5)));
+
+        expect(sent[sent.length - 1].event_type).toBe("finishUploadRequest");
+        expect(progress[progress.length - 1]).toBe(size);
+        expect(cancelled(sent)).toEqual([]);
+    });
+
+    it("rejects files that cannot be uploaded without contacting Kit", async () => {
+        const sent: KitRequest[] = [];
+        await expect(uploadStage(createKit({}, sent), file("stage.obj", 10), options())).rejects.toBeInstanceOf(UploadError);
+        expect(sent).toEqual([]);
+    });
+
+    it.each([
+        ["Kit refuses the upload", { begin: "error" }],
+        ["Kit refuses a chunk", { begin: "success", chunk: (index: number) => index === 2 ? "error" : "success" }],
+        ["Kit refuses the file", { begin: "success", finish: "error" }],
+    ] as [string, KitBehavior][])("cancels the upload when %s", async (_name, behavior) => {
+        const sent: KitRequest[] = [];
+        await expect(uploadStage(createKit(behavior, sent), file("stage.usd", size), options())).rejects.toBeInstanceOf(UploadError);
+        expect(cancelled(sent)).toEqual([{ event_type: "cancelUpload", payload: { upload_id: (sent[0].payload as { upload_id: string }).upload_id } }]);
+    });
+
+    it("cancels the upload when it is aborted, even before Kit answered the begin request", async () => {
+        const sent: KitRequest[] = [];
+        const abort = new AbortController();
+        const upload = uploadStage(createKit({}, sent), file("stage.usd", size), options(abort.signal));
+        while (sent.length === 0)
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+        abort.abort();
+        await expect(upload).rejects.toMatchObject({ reason: "aborted" });
+        expect(cancelled(sent)).toHaveLength(1);
+    });
+
+    it("does not cancel the upload once the stream has ended", async () => {
+        const sent: KitRequest[] = [];
+        const kit = createKit({ begin: "success", chunk: () => undefined }, sent);
+        const upload = uploadStage(kit, file("stage.usd", size), options());
+        while (!sent.some(message => message.event_type === "uploadChunkRequest"))
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+        kit.close();
+        await expect(upload).rejects.toBeInstanceOf(KitRequestError);
+        expect(cancelled(sent)).toEqual([]);
+    });
+});
@@ -0,0 +1,177 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Upload of local stage files to the streamed Kit application. The file is sent in base64
+ * chunks with uploadChunkRequest, each checked by Kit against its SHA-256 digest; Kit then
+ * checks the digest of the whole file and answers with the URL to open it from.
+ */
+import KitClient, { KitRequestError } from './KitClient';
+
+// Raw bytes per uploadChunkRequest, before base64 encoding
+export const uploadChunkSize = 64 * 1024;
+
+// Largest file the browser reads into memory for an upload
+export const maxUploadSize = 256 * 1024 * 1024;
+
+// uploadChunkRequest messages in flight at once
+const chunkConcurrency = 4;
+
+// Kit checks the file and extracts zip archives before answering finishUploadRequest
+const finishTimeout = 60000;
+
+// A stage, or a zip archive of a stage with its dependencies
+const uploadExtension = /\.(usd[acz]?|zip)$/i;
+
+export class UploadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UploadError";
+    }
+}
+
+// Upload shown in the USD Asset panel
+export interface StageUploadStatus {
+    fileName: string;
+    // Bytes Kit has acknowledged
+    sent: number;
+    total: number;
+    // Why the upload failed; the status stays until it is dismissed
+    error: string | null;
+}
+
+export interface StageUploadOptions {
+    // Called with the number of bytes Kit has acknowledged
+    onProgress: (sent: number) => void;
+    signal: AbortSignal;
+}
+
+/**
+ * @function uploadFileError
+ *
+ * Why a local file cannot be uploaded, or null if it can.
+ */
+export function uploadFileError(file: File): string | null {
+    if (!uploadExtension.test(file.name))
+        return `${file.name} is not a .usd, .usda, .usdc, .usdz or .zip file.`;
+    if (file.size === 0)
+        return `${file.name} is empty.`;
+    if (file.size > maxUploadSize)
+        return `${file.name} is larger than ${maxUploadSize / (1024 * 1024)} MB.`;
+    return null;
+}
+
+/**
+ * @function sha256Hex
+ *
+ * The hex SHA-256 digest of the bytes.
+ */
+export async function sha256Hex(bytes: BufferSource): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * @function toBase64
+ *
+ * Base64 of the bytes, converted in slices to stay within the argument limit of fromCharCode.
+ */
+export function toBase64(bytes: Uint8Array): string {
+    let text = '';
+    for (let start = 0; start < bytes.length; start += 0x8000)
+        text += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+    return btoa(text);
+}
+
+/**
+ * @function createUploadId
+ *
+ * An id that tells concurrent uploads of the same session apart.
+ */
+function createUploadId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * @function uploadStage
+ *
+ * Send a local file to Kit. Resolves to the URL Kit can open it from; rejects with an
+ * UploadError if Kit refuses it, or with a KitRequestError if Kit does not answer or the
+ * signal is aborted. Kit is told to drop the partial upload whenever it does not complete.
+ */
+export async function uploadStage(kit: KitClient, file: File, options: StageUploadOptions): Promise<string> {
+    const fileError = uploadFileError(file);
+    if (fileError)
+        throw new UploadError(fileError);
+    // crypto.subtle only exists on pages served over https or from localhost
+    if (!globalThis.crypto?.subtle)
+        throw new UploadError("Uploading needs the page to be served over https.");
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const uploadId = createUploadId();
+    const chunkCount = Math.ceil(bytes.length / uploadChunkSize);
+    const check = (response: { result: "success" | "error"; error?: string }, action: string) => {
+        if (response.result !== "success")
+            throw new UploadError(response.error || `Kit could not ${action}.`);
+    };
+
+    try {
+        const begin = await kit.request("beginUploadRequest", {
+            upload_id: uploadId,
+            file_name: file.name,
+            size: bytes.length,
+            chunk_count: chunkCount,
+            sha256: await sha256Hex(bytes)
+        }, { signal: options.signal });
+        check(begin, `accept ${file.name}`);
+
+        let next = 0;
+        let sent = 0;
+        // set once a chunk failed, so the other workers stop too
+        let failed = false;
+        const work = async () => {
+            while (next < chunkCount && !failed) {
+                const index = next++;
+                const chunk = bytes.subarray(index * uploadChunkSize, (index + 1) * uploadChunkSize);
+                try {
+                    const response = await kit.request("uploadChunkRequest", {
+                        upload_id: uploadId,
+                        index,
+                        data: toBase64(chunk),
+                        sha256: await sha256Hex(chunk)
+                    }, { signal: options.signal });
+                    check(response, `store part ${index + 1} of ${file.name}`);
+                }
+                catch (error) {
+                    failed = true;
+                    throw error;
+                }
+                sent += chunk.length;
+                options.onProgress(sent);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(chunkConcurrency, chunkCount) }, work));
+
+        const finish = await kit.request("finishUploadRequest", { upload_id: uploadId }, { signal: options.signal, timeout: finishTimeout });
+        check(finish, `open ${file.name}`);
+        if (!finish.url)
+            throw new UploadError(`Kit did not say where it stored ${file.name}.`);
+        return finish.url;
+    }
+    catch (error) {
+        // Kit may have accepted the upload even if its answer never arrived; cancelling an
+        // upload Kit does not know is harmless
+        if (!(error instanceof KitRequestError && error.reason === "closed"))
+            kit.send("cancelUpload", { upload_id: uploadId });
+        throw error;
+    }
+}
@@ -0,0 +1,104 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import { describe, expect, it } from 'vitest';
+import { exactStageUrlMatch, findStageByUrl, normalizeStageUrl, resolveUrlTokens, stageUrlError, stageUrlMatch } from './StageUrl';
+
+const tokens = { "omni.usd_viewer.samples": "/opt/kit/samples/", "empty": "" };
+
+describe("stageUrlError", () => {
+    it.each([
+        ["./samples/stage01.usd"],
+        ["omniverse://nucleus/Projects/Factory.usdc?checkpoint=3"],
+        ["${omni.usd_viewer.samples}/stage.usda"],
+        ["C:\\stages\\stage.USDZ"],
+    ])("accepts %s", (url) => {
+        expect(stageUrlError(url)).toBeNull();
+    });
+
+    it.each([[""], ["  "], ["./samples/stage01.obj"], ["https://example.com/stage.usd.zip"]])("rejects '%s'", (url) => {
+        expect(stageUrlError(url)).not.toBeNull();
+    });
+});
+
+describe("resolveUrlTokens", () => {
+    it("replaces the tokens that have a value, without a trailing slash", () => {
+        expect(resolveUrlTokens("${omni.usd_viewer.samples}/stage.usd", tokens)).toBe("/opt/kit/samples/stage.usd");
+    });
+
+    it("leaves the tokens without a value", () => {
+        expect(resolveUrlTokens("${empty}/stage.usd", tokens)).toBe("${empty}/stage.usd");
+        expect(resolveUrlTokens("${unknown}/stage.usd", tokens)).toBe("${unknown}/stage.usd");
+    });
+});
+
+describe("normalizeStageUrl", () => {
+    it.each([
+        ["POSIX paths keep their case", "/data/Scenes/Stage.usd", "/data/Scenes/Stage.usd"],
+        ["relative paths keep their case", "./Scenes/../Scenes//Stage.usd", "Scenes/Stage.usd"],
+        ["http paths keep their case, hosts do not", "HTTPS://Example.COM/Scenes/Stage.usd", "https://example.com/Scenes/Stage.usd"],
+        ["Nucleus URLs ignore case", "Omniverse://Nucleus/Projects/Factory.USD", "omniverse://nucleus/projects/factory.usd"],
+        ["Nucleus checkpoints are kept", "omniverse://nucleus/Factory.usd?checkpoint=3#prim", "omniverse://nucleus/factory.usd?checkpoint=3"],
+        ["Windows paths ignore case", "C:\\Stages\\Sub\\..\\Stage.USD", "c:/stages/stage.usd"],
+        ["file URLs name local paths", "file:///C:/Stages/Stage.usd", "c:/stages/stage.usd"],
+        ["file URLs of POSIX paths keep their case", "file:///data/Stage.usd", "/data/Stage.usd"],
+        ["tokens with a value are resolved", "${omni.usd_viewer.samples}/Stage.usd", "/opt/kit/samples/Stage.usd"],
+        ["an empty token leaves a relative path", "${empty}/samples/Stage.usd", "samples/Stage.usd"],
+        ["an unknown token leaves a relative path", "${unknown}/samples/Stage.usd", "samples/Stage.usd"],
+        ["paths do not climb above their root", "/../data/Stage.usd", "/data/Stage.usd"],
+    ])("%s", (_name, url, normalized) => {
+        expect(normalizeStageUrl(url, tokens)).toBe(normalized);
+    });
+});
+
+describe("stageUrlMatch", () => {
+    it.each([
+        ["the same POSIX path", "/data/Stage.usd", "/data//./Stage.usd", exactStageUrlMatch],
+        ["POSIX paths that differ in case", "/data/Scene.usd", "/data/scene.usd", 0],
+        ["Nucleus URLs that differ in case", "omniverse://nucleus/Scene.usd", "OMNIVERSE://Nucleus/scene.USD", exactStageUrlMatch],
+        ["Windows paths that differ in case", "C:\\Data\\Scene.usd", "c:/data/SCENE.usd", exactStageUrlMatch],
+        ["a token and the path it stands for", "${omni.usd_viewer.samples}/stage.usd", "/opt/kit/samples/stage.usd", exactStageUrlMatch],
+        ["a relative path and a path ending with it", "./samples/stage.usd", "/opt/kit/samples/stage.usd", 2],
+        ["a relative path in another case than a POSIX path", "./samples/Stage.usd", "/opt/kit/samples/stage.usd", 0],
+        ["a relative path in another case than a Nucleus URL", "./Samples/Stage.usd", "omniverse://nucleus/samples/stage.usd", 2],
+        ["a relative path and a path ending with a longer segment", "stage.usd", "/data/mystage.usd", 0],
+        ["a relative path and a path ending with it in a longer folder", "samples/stage.usd", "/data/oldsamples/stage.usd", 0],
+        ["a relative path climbing out of its folder", "../stage.usd", "/data/stage.usd", 0],
+        ["two absolute paths ending alike", "/a/samples/stage.usd", "/b/samples/stage.usd", 0],
+        ["an empty URL", "", "/data/stage.usd", 0],
+    ])("%s", (_name, a, b, match) => {
+        expect(stageUrlMatch(a, b, tokens)).toBe(match);
+        expect(stageUrlMatch(b, a, tokens)).toBe(match);
+    });
+});
+
+describe("findStageByUrl", () => {
+    const assets = [
+        { name: "Any stage", url: "stage.usd" },
+        { name: "Sample", url: "./samples/stage.usd" },
+        { name: "Token sample", url: "${omni.usd_viewer.samples}/stage.usd" },
+        { name: "Other", url: "/data/other.usd" },
+    ];
+
+    it("finds the asset sharing the most of the path", () => {
+        expect(findStageByUrl(assets, "/opt/kit/samples/stage.usd", tokens)?.name).toBe("Token sample");
+        expect(findStageByUrl(assets, "/srv/samples/stage.usd", tokens)?.name).toBe("Sample");
+        expect(findStageByUrl(assets, "/srv/stage.usd", tokens)?.name).toBe("Any stage");
+    });
+
+    it("finds the first of equally close assets", () => {
+        expect(findStageByUrl([...assets, { name: "Copy", url: "/data/other.usd" }], "/data/other.usd")?.name).toBe("Other");
+    });
+
+    it("finds nothing for a stage that is not listed", () => {
+        expect(findStageByUrl(assets, "/data/Other.usd", tokens)).toBeNull();
+    });
+});
@@ -0,0 +1,154 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Checks of stage URLs typed by the user, before Kit is asked about them, and the identity
+ * of stage URLs: Kit reports the stages it opened by resolved path, while the catalog may
+ * name them with tokens such as `${omni.usd_viewer.samples}` or by relative path.
+ */
+
+// File extensions of the stages Kit can open
+const usdExtension = /\.usd[acz]?$/i;
+
+// Values of the tokens used in stage URLs, by token name without `${}`. Tokens without a
+// value are left unresolved.
+export type UrlTokens = { [name: string]: string };
+
+const tokenPattern = /\$\{([^}]+)\}/g;
+// A leading token that has no value, such as `${omni.usd_viewer.samples}/`
+const leadingTokenPattern = /^\$\{[^}]+\}\/*/;
+const schemePattern = /^([a-z][a-z0-9+.-]*):\/\/([^/]*)/i;
+const drivePattern = /^[a-z]:(?=\/)/i;
+// Normalized URLs whose paths ignore case: Nucleus URLs and Windows paths
+const caseInsensitivePattern = /^(omniverse:\/\/|[a-z]:\/)/;
+
+// stageUrlMatch of two URLs that normalize to the same one
+export const exactStageUrlMatch = Number.MAX_SAFE_INTEGER;
+
+/**
+ * @function stageUrlError
+ *
+ * Why a URL cannot be the URL of a stage, or null if it can. Any scheme is accepted, such as
+ * omniverse:// or https://, as are file paths and paths with tokens.
+ */
+export function stageUrlError(url: string): string | null {
+    if (!url.trim())
+        return "Enter the URL or path of a stage.";
+    // Nucleus URLs may carry a checkpoint query
+    const path = url.trim().split(/[?#]/)[0];
+    if (!usdExtension.test(path))
+        return "Enter the URL of a .usd, .usda, .usdc or .usdz file.";
+    return null;
+}
+
+/**
+ * @function resolveUrlTokens
+ *
+ * Replace the tokens of a URL that have a value.
+ */
+export function resolveUrlTokens(url: string, tokens: UrlTokens): string {
+    return url.replace(tokenPattern, (token, name: string) => tokens[name] ? tokens[name].replace(/[\\/]+$/, '') : token);
+}
+
+/**
+ * @function normalizeStageUrl
+ *
+ * The form of a stage URL used to compare it with others: tokens resolved, backslashes
+ * turned into slashes, file:// URLs turned into paths, `.`, `..` and repeated slashes
+ * removed, and schemes, hosts and drive letters in lower case. The paths of Nucleus URLs
+ * and Windows paths are lower-cased too, since they ignore case; other paths keep their case.
+ * The query, such as a Nucleus checkpoint, is kept as is and the fragment is dropped. A
+ * leading token without a value is dropped, which leaves a relative path.
+ */
+export function normalizeStageUrl(url: string, tokens: UrlTokens = {}): string {
+    let text = resolveUrlTokens(url.trim(), tokens).split('#')[0];
+    const queryStart = text.indexOf('?');
+    const query = queryStart >= 0 ? text.slice(queryStart) : '';
+    if (queryStart >= 0)
+        text = text.slice(0, queryStart);
+
+    text = text.replace(/\\/g, '/')
+        .replace(leadingTokenPattern, '')
+        // file:///C:/stage.usd and file:///home/stage.usd name local paths
+        .replace(/^file:\/\/(localhost)?(?=\/)/i, '')
+        .replace(/^\/([a-z]:\/)/i, '$1');
+
+    let root = '';
+    const scheme = text.match(schemePattern);
+    const drive = text.match(drivePattern);
+    if (scheme) {
+        root = `${scheme[1]}://${scheme[2]}/`;
+        text = text.slice(scheme[0].length);
+    }
+    else if (drive) {
+        root = `${drive[0]}/`;
+        text = text.slice(drive[0].length);
+    }
+    else if (text.startsWith('/')) {
+        root = '/';
+    }
+
+    const segments: string[] = [];
+    for (const segment of text.split('/')) {
+        if (segment === '' || segment === '.')
+            continue;
+        if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..')
+            segments.pop();
+        else if (segment !== '..' || !root)
+            segments.push(segment);
+    }
+    const path = segments.join('/');
+    root = root.toLowerCase();
+    return root + (caseInsensitivePattern.test(root) ? path.toLowerCase() : path) + query;
+}
+
+/**
+ * @function stageUrlMatch
+ *
+ * How closely two URLs name the same stage: 0 if they name different stages, and higher the
+ * more of their path they share. Relative paths are resolved by Kit against a folder the
+ * client does not know, so a relative path matches any path that ends with it.
+ */
+export function stageUrlMatch(a: string, b: string, tokens: UrlTokens = {}): number {
+    const first = normalizeStageUrl(a, tokens);
+    const second = normalizeStageUrl(b, tokens);
+    if (!first || !second)
+        return 0;
+    if (first === second)
+        return exactStageUrlMatch;
+
+    const [shorter, longer] = first.length < second.length ? [first, second] : [second, first];
+    const isRelative = !schemePattern.test(shorter) && !drivePattern.test(shorter) && !shorter.startsWith('/');
+    // relative paths keep their case, so they are lower-cased to be found in paths that ignore it
+    const suffix = caseInsensitivePattern.test(longer) ? shorter.toLowerCase() : shorter;
+    if (isRelative && longer.endsWith(`/${suffix}`))
+        return shorter.split('/').length;
+    return 0;
+}
+
+/**
+ * @function findStageByUrl
+ *
+ * The asset naming the same stage as a URL most closely, the first of them on a tie, or null.
+ */
+export function findStageByUrl<T extends { url: string }>(assets: T[], url: string, tokens: UrlTokens = {}): T | null {
+    let found: T | null = null;
+    let bestMatch = 0;
+    for (const asset of assets) {
+        const match = stageUrlMatch(asset.url, url, tokens);
+        if (match > bestMatch) {
+            found = asset;
+            bestMatch = match;
+        }
+    }
+    return found;
+}
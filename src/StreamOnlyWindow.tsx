@@ -13,6 +13,9 @@ import React from 'react';
 import AppStream from './AppStream'; // Ensure .tsx extension if needed
 import { AppProps } from './Window';
 import { headerHeight } from './App';
+import { kitEvents } from './KitEvents';
+import KitInspector from './KitInspector';
+import { parseKitMessage } from './Protocol';
 
 export default class StreamOnly extends React.Component<AppProps> {
         
@@ -32,10 +35,21 @@ export default class StreamOnly extends React.Component<AppProps> {
     /**
     * @function _handleCustomEvent
     *
-    * Handle message from stream.
+    * Dispatch a message from the stream through the kitEvents registry.
+    * Messages are only logged when no handler is registered for them. Payloads are not
+    * validated against the USD Viewer protocol, since the streamed app may use the same
+    * event types with payloads of its own.
     */
-    private _handleCustomEvent (event: any): void {
-        console.log(event);
+    private _handleCustomEvent (raw: unknown): void {
+        const result = parseKitMessage(raw);
+        if (result.kind === "message") {
+            if (!kitEvents.hasHandlers(result.message.event_type))
+                console.log(result.message);
+            kitEvents.dispatch(result.message);
+        }
+        else if (result.kind === "malformed") {
+            console.error(`Streamed app sent a malformed message: ${result.error}`, result.raw);
+        }
     }
 
     /**
@@ -92,6 +106,9 @@ export default class StreamOnly extends React.Component<AppProps> {
                         onStreamFailed={this.props.onStreamFailed}
                     />
                 </div>
+
+                {/* Message inspector */}
+                <KitInspector />
             </div>
         );
     }
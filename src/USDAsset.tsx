@@ -13,97 +13,376 @@
 import React from "react";
 import './App.css';
 import './USDAsset.css';
+import { CatalogAsset, groupByCategory, searchCatalog } from './AssetCatalog';
+import { USDAssetType } from './StageLifecycle';
+import { StageUploadStatus } from './StageUpload';
+import { UrlTokens, normalizeStageUrl } from './StageUrl';
 
 
 interface USDAssetProps {
     width: number;
-    usdAssets: { name: string; url: string }[];
+    usdAssets: CatalogAsset[];
     selectedAssetUrl?: string;
-    onSelectUSDAsset: (asset: { name: string; url: string }) => void;
+    // Values of the tokens in stage URLs, to tell which listed URLs name the same stage
+    urlTokens: UrlTokens;
+    onSelectUSDAsset: (asset: CatalogAsset) => void;
+    // true while the catalog manifest is being fetched
+    isLoading?: boolean;
+    // Why the catalog manifest could not be used
+    error?: string | null;
+    // Stages opened most recently, most recent first
+    recentStages: USDAssetType[];
+    // Resolves once Kit accepted the URL and the stage is being opened, rejects with the reason it cannot be opened
+    onOpenUrl: (url: string) => Promise<void>;
+    onClearRecentStages: () => void;
+    // Local file being uploaded to Kit, or whose upload failed
+    upload: StageUploadStatus | null;
+    onUploadFile: (file: File) => void;
+    // Cancels the running upload or dismisses the failed one
+    onCancelUpload: () => void;
 }
 
+// Category the recent stages are listed under, above the catalog
+const recentCategory = "Recent";
+
 interface USDAssetState {
-    selectedUSDAssetIndex: number | null;
+    isOpen: boolean;
+    query: string;
+    // Asset highlighted with the arrow keys, as an index into the matching assets
+    activeIndex: number;
+    // Thumbnails that failed to load, by URL
+    brokenThumbnails: Set<string>;
+    // The Open URL form replaces the search box while it is open
+    isUrlFormOpen: boolean;
+    urlText: string;
+    urlError: string | null;
+    isCheckingUrl: boolean;
 }
 
 export default class USDAsset extends React.Component<USDAssetProps, USDAssetState> {
+    private _listRef = React.createRef<HTMLDivElement>();
+    private _fileInputRef = React.createRef<HTMLInputElement>();
+
     constructor(props: USDAssetProps) {
         super(props);
-        // Initialize state with the index of the asset matching the initial URL if provided
         this.state = {
-            selectedUSDAssetIndex: this._findAssetIndexByUrl(props.selectedAssetUrl)
+            isOpen: false,
+            query: '',
+            activeIndex: 0,
+            brokenThumbnails: new Set<string>(),
+            isUrlFormOpen: false,
+            urlText: '',
+            urlError: null,
+            isCheckingUrl: false
         };
     }
-    
+
     /**
-    * @function _handleSelectChange
+    * @function componentDidUpdate
     *
-    * Handle selection in list.
+    * Keep the highlighted asset in view.
     */
-    _handleSelectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-        const selectedIndex = parseInt(event.target.value, 10);
-        this.setState({ selectedUSDAssetIndex: selectedIndex });
-        if (this.props.onSelectUSDAsset) {
-            this.props.onSelectUSDAsset(this.props.usdAssets[selectedIndex]);
-        }
-    };
-    
+    componentDidUpdate(_prevProps: USDAssetProps, prevState: USDAssetState) {
+        if (this.state.isOpen && (prevState.activeIndex !== this.state.activeIndex || !prevState.isOpen))
+            this._listRef.current?.querySelector('.usdAssetItem.active')?.scrollIntoView({ block: 'nearest' });
+    }
+
     /**
-    * @function componentDidUpdate
+    * @function _isSameStage
     *
-    * Update state if the selectedAssetUrl prop changes.
+    * True if two URLs normalize to the same stage URL.
     */
-    componentDidUpdate(prevProps: USDAssetProps) {
-        if (prevProps.selectedAssetUrl !== this.props.selectedAssetUrl) {
-            const newIndex = this._findAssetIndexByUrl(this.props.selectedAssetUrl);
-            if (newIndex !== this.state.selectedUSDAssetIndex) {
-                this.setState({ selectedUSDAssetIndex: newIndex });
+    private _isSameStage (url: string, otherUrl: string | undefined): boolean {
+        return otherUrl !== undefined && normalizeStageUrl(url, this.props.urlTokens) === normalizeStageUrl(otherUrl, this.props.urlTokens);
+    }
+
+    /**
+    * @function _getSelectedAsset
+    *
+    * The listed asset matching the selected URL, if any.
+    */
+    private _getSelectedAsset (): CatalogAsset | undefined {
+        return this.props.usdAssets.find(asset => this._isSameStage(asset.url, this.props.selectedAssetUrl));
+    }
+
+    /**
+    * @function _getGroups
+    *
+    * The recent stages and the catalog assets matching a query, by category.
+    * Recent stages that are in the catalog are shown with their catalog entry.
+    */
+    private _getGroups (query: string): [string, CatalogAsset[]][] {
+        const recentAssets = this.props.recentStages.map(recent => {
+            const entry = this.props.usdAssets.find(asset => this._isSameStage(asset.url, recent.url));
+            return { description: recent.url, tags: [], thumbnail: null, ...entry, name: recent.name, url: recent.url, category: recentCategory };
+        });
+        return groupByCategory([...searchCatalog(recentAssets, query), ...searchCatalog(this.props.usdAssets, query)]);
+    }
+
+    /**
+    * @function _getMatches
+    *
+    * The assets matching the query, in the order they are listed.
+    */
+    private _getMatches (): CatalogAsset[] {
+        return this._getGroups(this.state.query).flatMap(([, assets]) => assets);
+    }
+
+    /**
+    * @function _open
+    *
+    * Show the picker with the selected asset highlighted.
+    */
+    private _open (): void {
+        const matches = this._getGroups('').flatMap(([, assets]) => assets);
+        const activeIndex = matches.findIndex(asset => this._isSameStage(asset.url, this.props.selectedAssetUrl));
+        this.setState({ isOpen: true, query: '', activeIndex: Math.max(0, activeIndex), isUrlFormOpen: false, urlError: null });
+    }
+
+    /**
+    * @function _openUrl
+    *
+    * Have the typed URL checked by Kit and opened. The picker closes once Kit accepted it.
+    */
+    private _openUrl (): void {
+        const url = this.state.urlText.trim();
+        this.setState({ isCheckingUrl: true, urlError: null });
+        this.props.onOpenUrl(url)
+            .then(() => this.setState({ isOpen: false, isUrlFormOpen: false, urlText: '' }))
+            .catch((error: Error) => this.setState({ urlError: error.message }))
+            .finally(() => this.setState({ isCheckingUrl: false }));
+    }
+
+    /**
+    * @function _select
+    *
+    * Pick an asset and close the picker.
+    */
+    private _select (asset: CatalogAsset): void {
+        this.setState({ isOpen: false });
+        if (!this._isSameStage(asset.url, this.props.selectedAssetUrl))
+            this.props.onSelectUSDAsset(asset);
+    }
+
+    /**
+    * @function _onSearchKeyDown
+    *
+    * Move the highlight with the arrow keys, pick the highlighted asset with Enter and close with Escape.
+    */
+    private _onSearchKeyDown (event: React.KeyboardEvent<HTMLInputElement>): void {
+        const matches = this._getMatches();
+        switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                event.preventDefault();
+                const step = event.key === 'ArrowDown' ? 1 : -1;
+                this.setState({ activeIndex: Math.min(Math.max(this.state.activeIndex + step, 0), Math.max(matches.length - 1, 0)) });
+                break;
             }
+            case 'Enter':
+                if (matches[this.state.activeIndex])
+                    this._select(matches[this.state.activeIndex]);
+                break;
+            case 'Escape':
+                this.setState({ isOpen: false });
+                break;
         }
     }
-    
+
+    /**
+    * @function _renderThumbnail
+    *
+    * Render the preview image of an asset, or its initial if it has none.
+    */
+    private _renderThumbnail (asset: CatalogAsset | undefined, className: string): JSX.Element {
+        const thumbnail = asset?.thumbnail;
+        if (thumbnail && !this.state.brokenThumbnails.has(thumbnail)) {
+            return (
+                <img
+                    className={className}
+                    src={thumbnail}
+                    alt=""
+                    loading="lazy"
+                    onError={() => this.setState(prevState => ({ brokenThumbnails: new Set(prevState.brokenThumbnails).add(thumbnail) }))}
+                />
+            );
+        }
+        return <div className={`${className} usdAssetPlaceholder`}>{asset?.name.charAt(0).toUpperCase() ?? '?'}</div>;
+    }
+
     /**
-    * @function _findAssetIndexByUrl
+    * @function _renderUrlForm
     *
-    * Find index of asset by url.
+    * Render the input for opening a stage that is not listed.
     */
-    private _findAssetIndexByUrl (url?: string): number {
-        return this.props.usdAssets.findIndex(asset => asset.url === url);
+    private _renderUrlForm (): JSX.Element {
+        return (
+            <form
+                className="usdAssetUrlForm"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    this._openUrl();
+                }}>
+                <div className="usdAssetUrlRow">
+                    <input
+                        className={`form-control form-control-sm ${this.state.urlError ? 'is-invalid' : ''}`}
+                        placeholder="omniverse://server/path/stage.usd"
+                        value={this.state.urlText}
+                        autoFocus
+                        disabled={this.state.isCheckingUrl}
+                        onChange={(e) => this.setState({ urlText: e.target.value, urlError: null })}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Escape')
+                                this.setState({ isUrlFormOpen: false, urlError: null });
+                        }}
+                    />
+                    <button type="submit" className="nvidia-button" disabled={this.state.isCheckingUrl || !this.state.urlText.trim()}>Open</button>
+                </div>
+                {this.state.isCheckingUrl && <div className="usdAssetUrlStatus">Checking the URL with Kit...</div>}
+                {this.state.urlError && <div className="usdAssetUrlStatus error" role="alert">{this.state.urlError}</div>}
+            </form>
+        );
     }
-    
+
     /**
-    * @function _renderSelector
+    * @function _renderPicker
     *
-    * Render the selector.
+    * Render the search box, the recent stages and the matching assets by category.
     */
-    private _renderSelector (): JSX.Element {
-          const options = this.props.usdAssets.map((asset, index) => (
-              <option key={index} value={index} className="usdAssetOption">
-                  {asset.name}
-              </option>
-          ));
-
-          return (
-              <select
-                  className="nvidia-dropdown"
-                  onChange={this._handleSelectChange}
-                  value={this.state.selectedUSDAssetIndex || ''}>
-                  {options}
-              </select>
-          );
+    private _renderPicker (): JSX.Element {
+        const groups = this._getGroups(this.state.query);
+        let index = 0;
+        return (
+            <>
+                <div className="usdAssetPickerBackdrop" onMouseDown={() => this.setState({ isOpen: false })} />
+                <div className="usdAssetPicker" role="dialog" aria-label="Pick a USD asset">
+                    {this.state.isUrlFormOpen
+                        ? this._renderUrlForm()
+                        : <input
+                            className="form-control form-control-sm"
+                            placeholder="Search by name, description or tag"
+                            value={this.state.query}
+                            autoFocus
+                            onChange={(e) => this.setState({ query: e.target.value, activeIndex: 0 })}
+                            onKeyDown={(e) => this._onSearchKeyDown(e)}
+                        />
+                    }
+                    <div className="usdAssetPickerList" role="listbox" ref={this._listRef}>
+                        {groups.map(([category, assets]) => (
+                            <div key={category}>
+                                <div className="usdAssetCategory">
+                                    {category}
+                                    {category === recentCategory && this.props.recentStages.length > 0 &&
+                                        <button className="usdAssetClearRecent" onClick={this.props.onClearRecentStages}>Clear</button>
+                                    }
+                                </div>
+                                {assets.map(asset => {
+                                    const itemIndex = index++;
+                                    const isSelected = this._isSameStage(asset.url, this.props.selectedAssetUrl);
+                                    return (
+                                        <div
+                                            key={`${category}:${asset.url}`}
+                                            className={`usdAssetItem ${itemIndex === this.state.activeIndex ? 'active' : ''} ${isSelected ? 'selected' : ''}`}
+                                            role="option"
+                                            aria-selected={isSelected}
+                                            title={asset.url}
+                                            onMouseEnter={() => this.setState({ activeIndex: itemIndex })}
+                                            onClick={() => this._select(asset)}>
+                                            {this._renderThumbnail(asset, 'usdAssetItemThumbnail')}
+                                            <div className="usdAssetItemText">
+                                                <div className="usdAssetItemName">{asset.name}</div>
+                                                {asset.description && <div className="usdAssetItemDescription">{asset.description}</div>}
+                                                {asset.tags.length > 0 &&
+                                                    <div className="usdAssetTags">
+                                                        {asset.tags.map(tag => <span key={tag} className="usdAssetTag">{tag}</span>)}
+                                                    </div>
+                                                }
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                        {groups.length === 0 && <div className="usdAssetEmpty">No matching assets.</div>}
+                    </div>
+                    {!this.state.isUrlFormOpen &&
+                        <div className="usdAssetPickerFooter">
+                            <button className="usdAssetOpenUrl" onClick={() => this.setState({ isUrlFormOpen: true, urlError: null })}>Open URL…</button>
+                            <button className="usdAssetOpenUrl" onClick={() => this._fileInputRef.current?.click()}>Upload file…</button>
+                        </div>
+                    }
+                </div>
+            </>
+        );
     }
-    
+
+    /**
+    * @function _renderUpload
+    *
+    * Render the progress of the running upload, or why it failed.
+    */
+    private _renderUpload (upload: StageUploadStatus): JSX.Element {
+        const percent = upload.total > 0 ? Math.round(100 * upload.sent / upload.total) : 0;
+        return (
+            <div className={`usdAssetUpload ${upload.error ? 'error' : ''}`} role={upload.error ? 'alert' : 'status'}>
+                <div className="usdAssetUploadRow">
+                    <span className="usdAssetUploadText" title={upload.error ?? upload.fileName}>
+                        {upload.error ?? `Uploading ${upload.fileName}: ${percent}%`}
+                    </span>
+                    <button className="usdAssetUploadCancel" onClick={this.props.onCancelUpload}>{upload.error ? 'Dismiss' : 'Cancel'}</button>
+                </div>
+                {!upload.error &&
+                    <div className="progress">
+                        <div className="progress-bar usdAssetUploadBar" role="progressbar" style={{ width: `${percent}%` }}
+                            aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100} />
+                    </div>
+                }
+            </div>
+        );
+    }
+
     render() {
-          return (
-              <div className="usdAssetContainer" style={{ width: this.props.width }}>
-                  <div className="usdAssetHeader">
-                      {'USD Asset'}
-                  </div>
-                  <div className="usdAssetSelectorContainer">
-                      {this._renderSelector()}
-                  </div>
-              </div>
-
-          );
+        const selected = this._getSelectedAsset();
+        const selectedName = selected?.name
+            ?? this.props.recentStages.find(recent => this._isSameStage(recent.url, this.props.selectedAssetUrl))?.name
+            ?? this.props.selectedAssetUrl?.split(/[/\\]/).pop() ?? '';
+        return (
+            <div className="usdAssetContainer" style={{ width: this.props.width }}>
+                <div className="usdAssetHeader">
+                    {'USD Asset'}
+                </div>
+                <div className="usdAssetSelectorContainer">
+                    <button
+                        className="nvidia-dropdown usdAssetPickerButton"
+                        aria-haspopup="listbox"
+                        aria-expanded={this.state.isOpen}
+                        disabled={this.props.isLoading}
+                        title={this.props.selectedAssetUrl}
+                        onClick={() => this.state.isOpen ? this.setState({ isOpen: false }) : this._open()}>
+                        {this._renderThumbnail(selected, 'usdAssetButtonThumbnail')}
+                        <span className="usdAssetButtonName">{this.props.isLoading ? 'Loading catalog...' : selectedName}</span>
+                        <span className="usdAssetButtonCaret">▾</span>
+                    </button>
+                    {this.props.error && <div className="usdAssetCatalogError" role="alert" title={this.props.error}>{this.props.error}</div>}
+                    {this.props.upload && this._renderUpload(this.props.upload)}
+                    {this.state.isOpen && this._renderPicker()}
+                    <input
+                        ref={this._fileInputRef}
+                        type="file"
+                        accept=".usd,.usda,.usdc,.usdz,.zip"
+                        hidden
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            // cleared so the same file can be picked again
+                            e.target.value = '';
+                            if (file) {
+                                this.setState({ isOpen: false });
+                                this.props.onUploadFile(file);
+                            }
+                        }}
+                    />
+                </div>
+            </div>
+        );
     }
 }
@@ -0,0 +1,444 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+import React from "react";
+import './App.css';
+import './USDProperties.css';
+import { USDAttribute, USDAttributeValue, USDPrimProperties, USDVariantSet } from './Protocol';
+
+
+type SectionName = "Variants" | "Attributes" | "Relationships" | "Metadata" | "Transform";
+
+interface USDPropertiesProps {
+    width: number;
+    primPath: string;
+    properties: USDPrimProperties | null;
+    isLoading: boolean;
+    error: string | null;
+    // Resolves once Kit confirmed the new value, rejects with Kit's error otherwise
+    onSetAttribute: (attribute: string, value: USDAttributeValue) => Promise<void>;
+    // null while Kit has not reported them
+    variantSets: USDVariantSet[] | null;
+    variantsError: string | null;
+    // Resolves once Kit confirmed the selection, rejects with Kit's error otherwise
+    onSetVariant: (variantSet: string, variant: string) => Promise<void>;
+    onRefresh: () => void;
+}
+
+interface USDPropertiesState {
+    search: string;
+    collapsed: Set<SectionName>;
+    // Edited but not yet confirmed values, by attribute name
+    drafts: { [attribute: string]: string };
+    pending: Set<string>;
+    errors: { [attribute: string]: string };
+    // Variant sets waiting for Kit to confirm a selection, and why selections failed, by variant set name
+    pendingVariants: Set<string>;
+    variantErrors: { [variantSet: string]: string };
+}
+
+/**
+ * @function formatValue
+ *
+ * Text shown for, and edited as, an attribute value.
+ */
+function formatValue(value: USDAttributeValue): string {
+    if (value === null)
+        return '';
+    if (typeof value === "string")
+        return value;
+    return JSON.stringify(value);
+}
+
+/**
+ * @function parseValue
+ *
+ * Parses edited text into a value of the same kind as the current value.
+ */
+function parseValue(text: string, current: USDAttributeValue): USDAttributeValue {
+    if (typeof current === "string")
+        return text;
+    if (typeof current === "number") {
+        const value = Number(text);
+        if (text.trim() === '' || isNaN(value))
+            throw new Error("Enter a number.");
+        return value;
+    }
+    try {
+        return JSON.parse(text);
+    }
+    catch {
+        throw new Error("Enter a JSON value, e.g. [0, 1, 0].");
+    }
+}
+
+/**
+ * @function formatNumber
+ *
+ * Rounds a transform component for display.
+ */
+function formatNumber(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+}
+
+export default class USDProperties extends React.Component<USDPropertiesProps, USDPropertiesState> {
+    constructor(props: USDPropertiesProps) {
+        super(props);
+        this.state = {
+            search: '',
+            collapsed: new Set<SectionName>(),
+            drafts: {},
+            pending: new Set<string>(),
+            errors: {},
+            pendingVariants: new Set<string>(),
+            variantErrors: {}
+        };
+    }
+
+    /**
+    * @function componentDidUpdate
+    *
+    * Drop edits of the previous prim when another prim is shown.
+    */
+    componentDidUpdate(prevProps: USDPropertiesProps) {
+        if (prevProps.primPath !== this.props.primPath)
+            this.setState({ drafts: {}, pending: new Set<string>(), errors: {}, pendingVariants: new Set<string>(), variantErrors: {} });
+    }
+
+    /**
+    * @function _matches
+    *
+    * True if a property name or value matches the search text.
+    */
+    private _matches(...texts: string[]): boolean {
+        const search = this.state.search.trim().toLowerCase();
+        return !search || texts.some(text => text.toLowerCase().includes(search));
+    }
+
+    /**
+    * @function _toggleSection
+    *
+    * Collapse or expand a group of properties.
+    */
+    private _toggleSection(section: SectionName): void {
+        this.setState(prevState => {
+            const collapsed = new Set(prevState.collapsed);
+            if (collapsed.has(section))
+                collapsed.delete(section);
+            else
+                collapsed.add(section);
+            return { collapsed };
+        });
+    }
+
+    /**
+    * @function _setDraft
+    *
+    * Keep the edited text of an attribute, or drop it when `text` is null.
+    */
+    private _setDraft(attribute: string, text: string | null): void {
+        this.setState(prevState => {
+            const drafts = { ...prevState.drafts };
+            const errors = { ...prevState.errors };
+            if (text === null)
+                delete drafts[attribute];
+            else
+                drafts[attribute] = text;
+            delete errors[attribute];
+            return { drafts, errors };
+        });
+    }
+
+    /**
+    * @function _setError
+    *
+    * Show why an edit was not applied.
+    */
+    private _setError(attribute: string, error: string): void {
+        this.setState(prevState => ({ errors: { ...prevState.errors, [attribute]: error } }));
+    }
+
+    /**
+    * @function _setPending
+    *
+    * Mark an attribute as waiting for Kit to confirm an edit.
+    */
+    private _setPending(attribute: string, isPending: boolean): void {
+        this.setState(prevState => {
+            const pending = new Set(prevState.pending);
+            if (isPending)
+                pending.add(attribute);
+            else
+                pending.delete(attribute);
+            return { pending };
+        });
+    }
+
+    /**
+    * @function _commit
+    *
+    * Send an edited value to Kit. The draft is kept until Kit confirms the edit.
+    */
+    private _commit(attribute: USDAttribute, value: USDAttributeValue): void {
+        const primPath = this.props.primPath;
+        this._setPending(attribute.name, true);
+        this.props.onSetAttribute(attribute.name, value)
+            .then(() => {
+                if (this.props.primPath === primPath)
+                    this._setDraft(attribute.name, null);
+            })
+            .catch((error: Error) => {
+                if (this.props.primPath === primPath)
+                    this._setError(attribute.name, error.message);
+            })
+            .finally(() => this._setPending(attribute.name, false));
+    }
+
+    /**
+    * @function _selectVariant
+    *
+    * Send a variant selection to Kit. The dropdown is disabled until Kit confirms it.
+    */
+    private _selectVariant(variantSet: string, variant: string): void {
+        const primPath = this.props.primPath;
+        this.setState(prevState => {
+            const variantErrors = { ...prevState.variantErrors };
+            delete variantErrors[variantSet];
+            return { pendingVariants: new Set(prevState.pendingVariants).add(variantSet), variantErrors };
+        });
+        this.props.onSetVariant(variantSet, variant)
+            .catch((error: Error) => {
+                if (this.props.primPath === primPath)
+                    this.setState(prevState => ({ variantErrors: { ...prevState.variantErrors, [variantSet]: error.message } }));
+            })
+            .finally(() => this.setState(prevState => {
+                const pendingVariants = new Set(prevState.pendingVariants);
+                pendingVariants.delete(variantSet);
+                return { pendingVariants };
+            }));
+    }
+
+    /**
+    * @function _commitDraft
+    *
+    * Parse and send the edited text of an attribute, if it was changed.
+    */
+    private _commitDraft(attribute: USDAttribute): void {
+        const draft = this.state.drafts[attribute.name];
+        if (draft === undefined || draft === formatValue(attribute.value))
+            return;
+
+        let value: USDAttributeValue;
+        try {
+            value = parseValue(draft, attribute.value);
+        }
+        catch (error) {
+            this._setError(attribute.name, (error as Error).message);
+            return;
+        }
+        this._commit(attribute, value);
+    }
+
+    /**
+    * @function _renderEditor
+    *
+    * Render the value of an attribute, editable if Kit allows it.
+    */
+    private _renderEditor(attribute: USDAttribute): JSX.Element {
+        const isPending = this.state.pending.has(attribute.name);
+        if (!attribute.writable)
+            return <span className="usdPropertiesValue readonly" title="Read-only">{formatValue(attribute.value)}</span>;
+
+        if (typeof attribute.value === "boolean") {
+            return (
+                <input
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={attribute.value}
+                    disabled={isPending}
+                    onChange={(e) => this._commit(attribute, e.target.checked)}
+                />
+            );
+        }
+
+        const draft = this.state.drafts[attribute.name];
+        return (
+            <input
+                className={`form-control form-control-sm usdPropertiesInput ${this.state.errors[attribute.name] ? 'is-invalid' : ''}`}
+                value={draft ?? formatValue(attribute.value)}
+                disabled={isPending}
+                onChange={(e) => this._setDraft(attribute.name, e.target.value)}
+                onBlur={() => this._commitDraft(attribute)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter')
+                        this._commitDraft(attribute);
+                    else if (e.key === 'Escape')
+                        this._setDraft(attribute.name, null);
+                }}
+            />
+        );
+    }
+
+    /**
+    * @function _renderSection
+    *
+    * Render a collapsible group of property rows. Groups without matching rows are omitted.
+    */
+    private _renderSection(section: SectionName, rows: JSX.Element[]): JSX.Element | null {
+        if (rows.length === 0)
+            return null;
+        const isOpen = !this.state.collapsed.has(section);
+        return (
+            <div className="usdPropertiesSection" key={section}>
+                <div className="usdPropertiesSectionHeader" onClick={() => this._toggleSection(section)}>
+                    <span className="expand-toggle deselected">{isOpen ? '▼' : '▶'}</span>
+                    {section} <span className="usdPropertiesCount">({rows.length})</span>
+                </div>
+                {isOpen && <table className="usdPropertiesTable"><tbody>{rows}</tbody></table>}
+            </div>
+        );
+    }
+
+    /**
+    * @function _renderVariants
+    *
+    * Render a dropdown for each variant set that matches the search text.
+    */
+    private _renderVariants(): JSX.Element | null {
+        const rows = (this.props.variantSets ?? [])
+            .filter(variantSet => this._matches(variantSet.name, ...variantSet.variants))
+            .map(variantSet => (
+                <tr key={variantSet.name}>
+                    <td className="usdPropertiesName">{variantSet.name}</td>
+                    <td>
+                        <select
+                            className={`form-select form-select-sm ${this.state.variantErrors[variantSet.name] ? 'is-invalid' : ''}`}
+                            value={variantSet.selection ?? ''}
+                            disabled={this.state.pendingVariants.has(variantSet.name)}
+                            onChange={(e) => this._selectVariant(variantSet.name, e.target.value)}>
+                            {variantSet.selection === null && <option value="" disabled>No variant</option>}
+                            {variantSet.variants.map(variant => <option key={variant} value={variant}>{variant}</option>)}
+                        </select>
+                        {this.state.variantErrors[variantSet.name] && <div className="usdPropertiesError">{this.state.variantErrors[variantSet.name]}</div>}
+                    </td>
+                </tr>
+            ));
+        return this._renderSection("Variants", rows);
+    }
+
+    /**
+    * @function _renderProperties
+    *
+    * Render the grouped properties that match the search text.
+    */
+    private _renderProperties(properties: USDPrimProperties): JSX.Element[] {
+        const attributes = properties.attributes
+            .filter(attribute => this._matches(attribute.name, attribute.type_name, formatValue(attribute.value)))
+            .map(attribute => (
+                <tr key={attribute.name}>
+                    <td className="usdPropertiesName" title={attribute.type_name}>
+                        {attribute.name}
+                        <div className="usdPropertiesType">{attribute.type_name}</div>
+                    </td>
+                    <td>
+                        {this._renderEditor(attribute)}
+                        {this.state.errors[attribute.name] && <div className="usdPropertiesError">{this.state.errors[attribute.name]}</div>}
+                    </td>
+                </tr>
+            ));
+
+        const relationships = properties.relationships
+            .filter(relationship => this._matches(relationship.name, ...relationship.targets))
+            .map(relationship => (
+                <tr key={relationship.name}>
+                    <td className="usdPropertiesName">{relationship.name}</td>
+                    <td className="usdPropertiesValue">{relationship.targets.map(target => <div key={target}>{target}</div>)}</td>
+                </tr>
+            ));
+
+        const metadata = Object.entries(properties.metadata)
+            .filter(([key, value]) => this._matches(key, formatValue(value)))
+            .map(([key, value]) => (
+                <tr key={key}>
+                    <td className="usdPropertiesName">{key}</td>
+                    <td className="usdPropertiesValue">{formatValue(value)}</td>
+                </tr>
+            ));
+
+        const transform: JSX.Element[] = [];
+        const matrix = properties.world_transform;
+        if (matrix) {
+            const translation = matrix.slice(12, 15).map(formatNumber).join(', ');
+            if (this._matches("translation", translation)) {
+                transform.push(
+                    <tr key="translation">
+                        <td className="usdPropertiesName">translation</td>
+                        <td className="usdPropertiesValue">{translation}</td>
+                    </tr>
+                );
+            }
+            if (this._matches("matrix", "world transform")) {
+                transform.push(
+                    <tr key="matrix">
+                        <td className="usdPropertiesName">matrix</td>
+                        <td className="usdPropertiesValue">
+                            {[0, 1, 2, 3].map(row => (
+                                <div key={row} className="usdPropertiesMatrixRow">
+                                    {matrix.slice(row * 4, row * 4 + 4).map((value, column) => <span key={column}>{formatNumber(value)}</span>)}
+                                </div>
+                            ))}
+                        </td>
+                    </tr>
+                );
+            }
+        }
+
+        return [
+            this._renderSection("Attributes", attributes),
+            this._renderSection("Relationships", relationships),
+            this._renderSection("Metadata", metadata),
+            this._renderSection("Transform", transform)
+        ].filter((section): section is JSX.Element => section !== null);
+    }
+
+    render() {
+        const { properties, isLoading, error } = this.props;
+        const variants = this._renderVariants();
+        const sections = [...(variants ? [variants] : []), ...(properties ? this._renderProperties(properties) : [])];
+        return (
+            <div className="usdPropertiesContainer" style={{ width: this.props.width }}>
+                <div className="usdPropertiesHeader">
+                    {'Properties'}
+                    <button className="nvidia-button" onClick={this.props.onRefresh} disabled={isLoading}>Refresh</button>
+                </div>
+                <div className="usdPropertiesPath" title={this.props.primPath}>
+                    {this.props.primPath}
+                    {properties && <span className="usdPropertiesPrimType">{properties.type}</span>}
+                </div>
+                <input
+                    className="form-control form-control-sm usdPropertiesSearch"
+                    placeholder="Search properties"
+                    value={this.state.search}
+                    onChange={(e) => this.setState({ search: e.target.value })}
+                />
+                <div className="usdPropertiesList">
+                    {isLoading && <div className="spinner-border spinner-border-sm" role="status" />}
+                    {error && <div className="usdPropertiesError">{error}</div>}
+                    {this.props.variantsError && !error && <div className="usdPropertiesError">{this.props.variantsError}</div>}
+                    {properties && !isLoading && sections.length === 0 &&
+                        <div className="usdPropertiesEmpty">{this.state.search ? 'No matching properties.' : 'This prim has no properties.'}</div>
+                    }
+                    {sections}
+                </div>
+            </div>
+        );
+    }
+}
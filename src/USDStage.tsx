@@ -12,27 +12,153 @@
 import React from "react";
 import './App.css';
 import './USDStage.css';
+import { USDPrimType } from './Protocol';
+import { PrimSearchResult, ancestorPaths, primTypeFilters } from './PrimSearch';
+import { primFilterOptions } from './StagePreferences';
+import { PrimAction, StageActionStatus, describePrims } from './PrimActions';
+import { isSameOrDescendant, movePath, movePaths } from './StageChanges';
+import { StageExportFormat, StageExportScope } from './StageExport';
 
 
-interface USDPrimType {
-    name?: string;
-    path: string;
-    children?: USDPrimType[];
-}
-
 interface USDStageProps {
     width: number;
     usdPrims: USDPrimType[];
-    selectedUSDPrims: Set<USDPrimType>;
-    onSelectUSDPrims: (selectedUsdPrims: Set<USDPrimType>) => void;
+    // changes whenever children were added to usdPrims in place
+    usdPrimsVersion: number;
+    // Paths of the selected prims, the most recently selected last
+    selectedPaths: Set<string>;
+    onSelectUSDPrims: (selectedPaths: Set<string>) => void;
+    onSelectChildren: () => void;
+    // Prims authored invisible; their descendants are hidden too
+    hiddenPaths: Set<string>;
+    onSetVisibility: (paths: string[], visible: boolean) => void;
+    onIsolateSelection: () => void;
+    onShowAll: () => void;
+    // Actions of the context menu for the prims it was opened on
+    getPrimActions: (paths: string[]) => PrimAction[];
+    onRunPrimAction: (action: PrimAction, paths: string[]) => void;
+    onCopySelectionPaths: () => void;
+    onExport: (scope: StageExportScope, format: StageExportFormat) => void;
+    // Number of prims found by the running export, null if no export is running
+    exportProgress: number | null;
+    onCancelExport: () => void;
+    // Outcome of the last action
+    stageStatus: StageActionStatus | null;
+    onDismissStageStatus: () => void;
     fillUSDPrim: (usdPrim: USDPrimType) => void;
     onReset: () => void;
+    // Leaves the lower half of the sidebar to the properties panel
+    withProperties?: boolean;
+    search: PrimSearchResult | null;
+    onSearch: (query: string, types: string[]) => void;
+    stageRoot: string;
+    stageRoots: string[];
+    onChangeStageRoot: (stageRoot: string) => void;
+    primFilters: string[];
+    onChangePrimFilters: (primFilters: string[]) => void;
+}
+
+interface USDStageState {
+    expandedIds: Set<string>;
+    query: string;
+    // labels of the active primTypeFilters
+    typeFilters: Set<string>;
+    scrollTop: number;
+    viewportHeight: number;
+    isFilterMenuOpen: boolean;
+    // Row a Shift-click or Shift+arrow selects from
+    anchorPath: string | null;
+    // Row moved by the arrow keys
+    focusPath: string | null;
+    contextMenu: ContextMenuState | null;
+    isExportOpen: boolean;
+    exportScope: StageExportScope;
+    exportFormat: StageExportFormat;
+}
+
+// The open context menu, at viewport coordinates
+interface ContextMenuState {
+    x: number;
+    y: number;
+    paths: string[];
+}
+
+// Prims shown while searching: the matches and their ancestors
+interface SearchFilter {
+    matches: Set<string>;
+    ancestors: Set<string>;
 }
 
-export default class USDStage extends React.Component<USDStageProps, { expandedIds: Set<string> }> {
+// A row of the flattened tree of listed prims
+interface TreeRow {
+    prim: USDPrimType;
+    depth: number;
+    isLeaf: boolean;
+    isOpen: boolean;
+    isMatch: boolean;
+    isHidden: boolean;
+    // an ancestor is invisible
+    isInheritedHidden: boolean;
+}
+
+// The inputs the rows were flattened from
+interface TreeRowsCache {
+    usdPrims: USDPrimType[];
+    usdPrimsVersion: number;
+    expandedIds: Set<string>;
+    search: PrimSearchResult | null;
+    hiddenPaths: Set<string>;
+    rows: TreeRow[];
+    // Row index by prim path
+    indexes: Map<string, number>;
+}
+
+const searchDelay = 300;
+// Rows have a fixed height so only the rows in view need to be rendered
+const rowHeight = 26;
+const rowIndent = 20;
+// Rows rendered above and below the visible ones to avoid flicker while scrolling
+const overscanRows = 10;
+// Height of a context menu item, used to keep the menu within the window
+const menuItemHeight = 28;
+
+export default class USDStage extends React.Component<USDStageProps, USDStageState> {
+    private _searchTimer: ReturnType<typeof setTimeout> | null = null;
+    private _listRef = React.createRef<HTMLDivElement>();
+    private _resizeObserver: ResizeObserver | null = null;
+    private _rowsCache: TreeRowsCache | null = null;
+
     constructor(props: USDStageProps) {
         super(props);
-        this.state = { expandedIds: new Set<string>() };
+        this.state = {
+            expandedIds: new Set<string>(),
+            query: '',
+            typeFilters: new Set<string>(),
+            scrollTop: 0,
+            viewportHeight: 0,
+            isFilterMenuOpen: false,
+            anchorPath: null,
+            focusPath: null,
+            contextMenu: null,
+            isExportOpen: false,
+            exportScope: "stage",
+            exportFormat: "json"
+        };
+    }
+
+    componentDidMount() {
+        const list = this._listRef.current;
+        if (!list)
+            return;
+        this.setState({ viewportHeight: list.clientHeight });
+        this._resizeObserver = new ResizeObserver(() => this.setState({ viewportHeight: list.clientHeight }));
+        this._resizeObserver.observe(list);
+    }
+
+    componentWillUnmount() {
+        this._cancelSearchTimer();
+        this._resizeObserver?.disconnect();
+        this._resizeObserver = null;
     }
     
     /**
@@ -45,93 +171,797 @@ export default class USDStage extends React.Component<USDStageProps, { expandedI
     }
     
     /**
-    * @function _toggleExpand
+    * @function resetSearch
     *
-    * Toggle the expanded states in the list.
+    * Public function for clearing the search box and type filters without searching again.
     */
-    private _toggleExpand(obj: USDPrimType, event: React.MouseEvent<HTMLSpanElement, MouseEvent>): void {
-        event.stopPropagation(); // Prevents the click from bubbling up to parent elements
-        this.props.fillUSDPrim(obj);
+    public resetSearch (): void {
+        this._cancelSearchTimer();
+        this.setState({ query: '', typeFilters: new Set<string>() });
+    }
+
+    /**
+    * @function movePrimPaths
+    *
+    * Public function for keeping the expanded and focused prims in step with a prim Kit
+    * renamed, or removed when `to` is null.
+    */
+    public movePrimPaths (from: string, to: string | null): void {
+        this.setState(prevState => ({
+            expandedIds: new Set(movePaths(prevState.expandedIds, from, to)),
+            anchorPath: prevState.anchorPath && movePath(prevState.anchorPath, from, to),
+            focusPath: prevState.focusPath && movePath(prevState.focusPath, from, to),
+            contextMenu: prevState.contextMenu?.paths.some(path => isSameOrDescendant(path, from)) ? null : prevState.contextMenu
+        }));
+    }
+
+    /**
+    * @function revealPaths
+    *
+    * Public function for expanding the ancestors of prims and scrolling to the last one.
+    * The ancestors must have been fetched.
+    */
+    public revealPaths (paths: string[]): void {
+        const path = paths[paths.length - 1];
+        this.setState(prevState => {
+            const expandedIds = new Set(prevState.expandedIds);
+            paths.forEach(item => ancestorPaths(item).forEach(ancestor => expandedIds.add(ancestor)));
+            return { expandedIds, anchorPath: path, focusPath: path };
+        }, () => this._scrollToRow(this._getRowIndex(path), true));
+    }
+
+    /**
+    * @function _cancelSearchTimer
+    *
+    * Drop a search that is waiting for the user to stop typing.
+    */
+    private _cancelSearchTimer (): void {
+        if (this._searchTimer !== null) {
+            clearTimeout(this._searchTimer);
+            this._searchTimer = null;
+        }
+    }
+
+    /**
+    * @function _search
+    *
+    * Ask for the prims matching the query and the active type filters.
+    */
+    private _search (query: string, typeFilters: Set<string>): void {
+        this._cancelSearchTimer();
+        const types = primTypeFilters
+            .filter(filter => typeFilters.has(filter.label))
+            .flatMap(filter => filter.types);
+        this.props.onSearch(query, types);
+    }
+
+    /**
+    * @function _onQueryChange
+    *
+    * Search once the user stops typing.
+    */
+    private _onQueryChange (query: string): void {
+        this.setState({ query });
+        this._cancelSearchTimer();
+        this._searchTimer = setTimeout(() => this._search(query, this.state.typeFilters), searchDelay);
+    }
+
+    /**
+    * @function _toggleTypeFilter
+    *
+    * Toggle a quick filter by prim type and search right away.
+    */
+    private _toggleTypeFilter (label: string): void {
+        const typeFilters = new Set(this.state.typeFilters);
+        if (typeFilters.has(label))
+            typeFilters.delete(label);
+        else
+            typeFilters.add(label);
+        this.setState({ typeFilters });
+        this._search(this.state.query, typeFilters);
+    }
+
+    /**
+    * @function _getSearchFilter
+    *
+    * The prims to show for the current search result, or null to show the whole tree.
+    */
+    private _getSearchFilter (): SearchFilter | null {
+        const search = this.props.search;
+        if (!search)
+            return null;
+        const ancestors = new Set<string>();
+        search.matches.forEach(path => ancestorPaths(path).forEach(ancestor => ancestors.add(ancestor)));
+        return { matches: search.matches, ancestors };
+    }
+
+    /**
+    * @function _getRows
+    *
+    * The listed prims as a flat list of rows, recomputed only when the tree, the expanded
+    * prims or the search result changed.
+    */
+    private _getRows (): TreeRow[] {
+        const cache = this._rowsCache;
+        if (cache
+            && cache.usdPrims === this.props.usdPrims
+            && cache.usdPrimsVersion === this.props.usdPrimsVersion
+            && cache.expandedIds === this.state.expandedIds
+            && cache.search === this.props.search
+            && cache.hiddenPaths === this.props.hiddenPaths) {
+            return cache.rows;
+        }
+
+        // the listed prims are hidden if the root they are listed from, or one of its ancestors, is invisible
+        const stageRoot = this.props.stageRoot;
+        const isRootHidden = stageRoot !== '/' && [...ancestorPaths(stageRoot), stageRoot].some(path => this.props.hiddenPaths.has(path));
+
+        const rows: TreeRow[] = [];
+        this._flatten(this.props.usdPrims, 0, this._getSearchFilter(), isRootHidden, rows);
+        this._rowsCache = {
+            usdPrims: this.props.usdPrims,
+            usdPrimsVersion: this.props.usdPrimsVersion,
+            expandedIds: this.state.expandedIds,
+            search: this.props.search,
+            hiddenPaths: this.props.hiddenPaths,
+            rows,
+            indexes: new Map(rows.map((row, index) => [row.prim.path, index]))
+        };
+        return rows;
+    }
+
+    /**
+    * @function _getRowIndex
+    *
+    * Index of the row of a prim, or -1 if the prim is not listed.
+    */
+    private _getRowIndex (path: string | null): number {
+        if (path === null)
+            return -1;
+        this._getRows();
+        return this._rowsCache?.indexes.get(path) ?? -1;
+    }
+
+    /**
+    * @function _flatten
+    *
+    * Append the rows of the listed prims. While searching only matches and their ancestors
+    * are listed and the ancestors are expanded; the children of an expanded match are listed
+    * unfiltered.
+    */
+    private _flatten (usdPrims: USDPrimType[] | undefined, depth: number, filter: SearchFilter | null, isParentHidden: boolean, rows: TreeRow[]): void {
+        if (!Array.isArray(usdPrims))
+            return;
+        for (const prim of usdPrims) {
+            const isMatch = !!filter && filter.matches.has(prim.path);
+            const isAncestor = !!filter && filter.ancestors.has(prim.path);
+            if (filter && !isMatch && !isAncestor)
+                continue;
+
+            const isLeaf = !prim.children || prim.children.length === 0;
+            const isOpen = this.state.expandedIds.has(prim.path) || isAncestor;
+            const isHidden = this.props.hiddenPaths.has(prim.path);
+            rows.push({ prim, depth, isLeaf, isOpen, isMatch, isHidden, isInheritedHidden: isParentHidden });
+            if (isOpen && !isLeaf)
+                this._flatten(prim.children, depth + 1, isMatch && !isAncestor ? null : filter, isParentHidden || isHidden, rows);
+        }
+    }
+
+    /**
+    * @function _setExpanded
+    *
+    * Expand or collapse a prim, fetching its children when it is expanded.
+    */
+    private _setExpanded(obj: USDPrimType, expanded: boolean): void {
+        if (expanded)
+            this.props.fillUSDPrim(obj);
         this.setState(prevState => {
             const newExpandedIds = new Set(prevState.expandedIds); // Create a copy of the current Set
-            if (newExpandedIds.has(obj.path)) {
-                newExpandedIds.delete(obj.path); // Remove id if it's already expanded
-            } else {
-                newExpandedIds.add(obj.path); // Add id if it's not expanded
-            }
+            if (expanded)
+                newExpandedIds.add(obj.path);
+            else
+                newExpandedIds.delete(obj.path);
             return { expandedIds: newExpandedIds };
         });
     }
-    
+
+    /**
+    * @function _toggleExpand
+    *
+    * Toggle the expanded states in the list.
+    */
+    private _toggleExpand(obj: USDPrimType, event: React.MouseEvent<HTMLSpanElement, MouseEvent>): void {
+        event.stopPropagation(); // Prevents the click from bubbling up to parent elements
+        this._setExpanded(obj, !this.state.expandedIds.has(obj.path));
+    }
+
+    /**
+    * @function _rangePaths
+    *
+    * Paths of the listed prims from the anchor row to the given row. Without a listed anchor
+    * the range is the row itself.
+    */
+    private _rangePaths(path: string): string[] {
+        const rows = this._getRows();
+        const index = this._getRowIndex(path);
+        const anchor = this._getRowIndex(this.state.anchorPath);
+        if (index === -1)
+            return [path];
+        if (anchor === -1)
+            return [rows[index].prim.path];
+        const paths = rows.slice(Math.min(anchor, index), Math.max(anchor, index) + 1).map(row => row.prim.path);
+        // the row reached last is the most recently selected one
+        return anchor > index ? paths.reverse() : paths;
+    }
+
     /**
     * @function _handleListClick
     *
-    * Change state when list selection changes.
+    * Select the clicked prim: Ctrl/Cmd-click toggles it, Shift-click selects the range from the
+    * previously clicked prim, and a plain click selects the prim alone.
     */
     private _handleListClick(obj: USDPrimType, event: React.MouseEvent<HTMLDivElement, MouseEvent>): void {
         event.stopPropagation();
-        const newSelectedItems = new Set(this.props.selectedUSDPrims);
-        if (newSelectedItems.has(obj)) {
-            newSelectedItems.delete(obj); // Deselect if already selected
-        } else {
-            newSelectedItems.add(obj); // Add to selection if not already selected
+        const isToggle = event.ctrlKey || event.metaKey;
+
+        if (event.shiftKey) {
+            const range = this._rangePaths(obj.path);
+            const base = isToggle ? Array.from(this.props.selectedPaths).filter(path => !range.includes(path)) : [];
+            this.setState({ focusPath: obj.path });
+            this.props.onSelectUSDPrims(new Set([...base, ...range]));
+            return;
         }
+
+        const newSelectedItems = new Set(isToggle ? this.props.selectedPaths : []);
+        if (isToggle && newSelectedItems.has(obj.path))
+            newSelectedItems.delete(obj.path); // Deselect if already selected
+        else
+            newSelectedItems.add(obj.path);
+        this.setState({ anchorPath: obj.path, focusPath: obj.path });
         this.props.onSelectUSDPrims(newSelectedItems);
     }
-    
+
     /**
-    * @function _renderList
+    * @function _openContextMenu
+    *
+    * Open the context menu for a prim. It applies to the selection if the prim is selected,
+    * otherwise the prim is selected alone first.
+    */
+    private _openContextMenu(path: string, x: number, y: number): void {
+        let paths = Array.from(this.props.selectedPaths);
+        if (!this.props.selectedPaths.has(path)) {
+            paths = [path];
+            this.props.onSelectUSDPrims(new Set(paths));
+        }
+        this.setState({ contextMenu: { x, y, paths }, anchorPath: path, focusPath: path });
+    }
+
+    /**
+    * @function _closeContextMenu
+    *
+    * Close the context menu and give the keyboard focus back to the list.
+    */
+    private _closeContextMenu(): void {
+        this.setState({ contextMenu: null });
+        this._listRef.current?.focus();
+    }
+
+    /**
+    * @function _moveFocus
     *
-    * Render the list.
+    * Move the focused row, selecting it alone or, with `extend`, the range from the anchor to it.
     */
-    private _renderList(usdPrims: USDPrimType[]): JSX.Element[] | undefined {
-        if (usdPrims === null || !Array.isArray(usdPrims)) {
+    private _moveFocus(index: number, extend: boolean): void {
+        const rows = this._getRows();
+        if (rows.length === 0)
             return;
+        const path = rows[Math.max(0, Math.min(rows.length - 1, index))].prim.path;
+        if (extend) {
+            // the range is computed once the anchor, which may only be set now, is in the state
+            this.setState(
+                prevState => ({ focusPath: path, anchorPath: prevState.anchorPath ?? prevState.focusPath ?? path }),
+                () => this.props.onSelectUSDPrims(new Set(this._rangePaths(path)))
+            );
+        }
+        else {
+            this.setState({ focusPath: path, anchorPath: path });
+            this.props.onSelectUSDPrims(new Set([path]));
         }
-        return usdPrims.map((obj, index) => {
-            const isLeaf = !obj.children || obj.children.length === 0;
-            const isOpen = this.state.expandedIds.has(obj.path);
-            const isSelected = this.props.selectedUSDPrims.has(obj);
-            const listItemClass = `list-item ${isLeaf ? 'leaf' : 'parent'} ${isOpen ? 'open' : ''} ${isSelected ? 'selected' : ''}`;
-            const itemContentClass = `item-content ${isLeaf ? 'leaf' : 'parent'} ${isOpen ? 'open' : ''} ${isSelected ? 'selected' : ''}`;
-            const expandToggleClass = `expand-toggle ${isSelected ? 'selected' : 'deselected'}`;
+        this._scrollToRow(this._getRowIndex(path));
+    }
 
-            return (
-                <li key={obj.name || index} className={listItemClass}>
-                    <div className={itemContentClass} onClick={(e) => this._handleListClick(obj, e)}
-                        tabIndex={0}
-                    >
-                        {!isLeaf && (
-                            <span onClick={(e) => this._toggleExpand(obj, e)} className={expandToggleClass}>
-                                {isOpen ? '▼' : '▶'}
-                            </span>
-                        )}
-                        {obj.name}
-                    </div>
-                    {isOpen && !isLeaf && obj.children && (
-                        <ul className="nested-list">
-                            {this._renderList(obj.children)}
-                        </ul>
+    /**
+    * @function _scrollToRow
+    *
+    * Scroll the list just enough for a row to be in view, or to have it in the middle of the
+    * list with `center` if it is out of view.
+    */
+    private _scrollToRow(index: number, center: boolean = false): void {
+        const list = this._listRef.current;
+        if (!list || index < 0)
+            return;
+        const top = index * rowHeight;
+        const isInView = top >= list.scrollTop && top + rowHeight <= list.scrollTop + list.clientHeight;
+        if (center && !isInView)
+            list.scrollTop = Math.max(0, top - (list.clientHeight - rowHeight) / 2);
+        else if (top < list.scrollTop)
+            list.scrollTop = top;
+        else if (top + rowHeight > list.scrollTop + list.clientHeight)
+            list.scrollTop = top + rowHeight - list.clientHeight;
+    }
+
+    /**
+    * @function _onListKeyDown
+    *
+    * Keyboard navigation of the tree: the arrow keys move the selection and expand or collapse
+    * prims, Shift extends the selection, Ctrl/Cmd+A selects every listed prim and Escape
+    * clears the selection.
+    */
+    private _onListKeyDown(event: React.KeyboardEvent<HTMLDivElement>): void {
+        const rows = this._getRows();
+        const focusPath = this.state.focusPath ?? Array.from(this.props.selectedPaths).pop() ?? null;
+        const index = this._getRowIndex(focusPath);
+        const row = index === -1 ? null : rows[index];
+
+        switch (event.key) {
+            case 'ArrowDown':
+                this._moveFocus(index + 1, event.shiftKey);
+                break;
+            case 'ArrowUp':
+                this._moveFocus(index === -1 ? rows.length - 1 : index - 1, event.shiftKey);
+                break;
+            case 'Home':
+                this._moveFocus(0, event.shiftKey);
+                break;
+            case 'End':
+                this._moveFocus(rows.length - 1, event.shiftKey);
+                break;
+            case 'ArrowRight':
+                if (!row)
+                    return;
+                if (!row.isLeaf && !row.isOpen)
+                    this._setExpanded(row.prim, true);
+                else if (row.isOpen && Array.isArray(row.prim.children) && row.prim.children.length > 0)
+                    this._moveFocus(index + 1, false);
+                break;
+            case 'ArrowLeft': {
+                if (!row)
+                    return;
+                if (row.isOpen && !row.isLeaf && this.state.expandedIds.has(row.prim.path)) {
+                    this._setExpanded(row.prim, false);
+                    break;
+                }
+                const parent = this._getRowIndex(ancestorPaths(row.prim.path).pop() ?? null);
+                if (parent !== -1)
+                    this._moveFocus(parent, false);
+                break;
+            }
+            case 'a':
+            case 'A':
+                if (!(event.ctrlKey || event.metaKey))
+                    return;
+                this.props.onSelectUSDPrims(new Set(rows.map(item => item.prim.path)));
+                break;
+            case 'Escape':
+                this.setState({ anchorPath: null, focusPath: null });
+                this.props.onSelectUSDPrims(new Set<string>());
+                break;
+            case 'ContextMenu':
+            case 'F10': {
+                if (!row || (event.key === 'F10' && !event.shiftKey))
+                    return;
+                // open the menu below the focused row
+                const list = event.currentTarget.getBoundingClientRect();
+                this._scrollToRow(index);
+                this._openContextMenu(row.prim.path, list.left + (row.depth + 1) * rowIndent, list.top + (index + 1) * rowHeight - event.currentTarget.scrollTop);
+                break;
+            }
+            default:
+                return;
+        }
+        event.preventDefault();
+    }
+    
+    /**
+    * @function _renderRow
+    *
+    * Render a prim of the list at its position in the flattened tree.
+    */
+    private _renderRow(row: TreeRow, index: number): JSX.Element {
+        const obj = row.prim;
+        const isSelected = this.props.selectedPaths.has(obj.path);
+        const isFocused = this.state.focusPath === obj.path;
+        const isVisible = !row.isHidden && !row.isInheritedHidden;
+        const listItemClass = `list-item ${row.isLeaf ? 'leaf' : 'parent'} ${row.isOpen ? 'open' : ''} ${isSelected ? 'selected' : ''} ${isFocused ? 'focused' : ''}`;
+        const itemContentClass = `item-content ${row.isLeaf ? 'leaf' : 'parent'} ${row.isOpen ? 'open' : ''} ${isSelected ? 'selected' : ''} ${row.isMatch ? 'match' : ''} ${isVisible ? '' : 'invisible-prim'}`;
+        const expandToggleClass = `expand-toggle ${isSelected ? 'selected' : 'deselected'}`;
+
+        return (
+            <div
+                key={obj.path}
+                className={listItemClass}
+                role="treeitem"
+                aria-level={row.depth + 1}
+                aria-selected={isSelected}
+                aria-expanded={row.isLeaf ? undefined : row.isOpen}
+                style={{ top: index * rowHeight, height: rowHeight, paddingLeft: row.depth * rowIndent }}
+            >
+                <div
+                    className={itemContentClass}
+                    onClick={(e) => this._handleListClick(obj, e)}
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        this._openContextMenu(obj.path, e.clientX, e.clientY);
+                    }}>
+                    {!row.isLeaf && (
+                        <span onClick={(e) => this._toggleExpand(obj, e)} className={expandToggleClass}>
+                            {row.isOpen ? '▼' : '▶'}
+                        </span>
                     )}
-                </li>
-            );
-        });
+                    <span className="item-name">{obj.name}</span>
+                    {this._renderVisibilityToggle(row)}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+    * @function _renderVisibilityToggle
+    *
+    * Render the eye that shows and hides a prim. Prims hidden by an invisible ancestor show
+    * a dimmed eye; making them visible requires showing the ancestor.
+    */
+    private _renderVisibilityToggle(row: TreeRow): JSX.Element {
+        const path = row.prim.path;
+        let title = row.isHidden ? 'Show' : 'Hide';
+        if (row.isInheritedHidden)
+            title = row.isHidden ? 'Show (still hidden by an invisible ancestor)' : 'Hidden by an invisible ancestor. Click to hide this prim too';
+
+        return (
+            <button
+                className={`visibility-toggle ${row.isHidden ? 'hidden' : ''} ${row.isInheritedHidden ? 'inherited' : ''}`}
+                title={title}
+                aria-label={title}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    this.props.onSetVisibility([path], row.isHidden);
+                }}>
+                <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor" aria-hidden="true">
+                    <path d="M8 3C4.4 3 1.6 5.4.5 8c1.1 2.6 3.9 5 7.5 5s6.4-2.4 7.5-5C14.4 5.4 11.6 3 8 3zm0 8.3A3.3 3.3 0 1 1 8 4.7a3.3 3.3 0 0 1 0 6.6zM8 6.2a1.8 1.8 0 1 0 0 3.6 1.8 1.8 0 0 0 0-3.6z" />
+                    {row.isHidden && <path d="M2.1 1.4 14.6 13.9l-.7.7L1.4 2.1z" />}
+                </svg>
+            </button>
+        );
+    }
+
+    /**
+    * @function _onBreadcrumbClick
+    *
+    * Select an ancestor of the selected prim from the breadcrumb.
+    */
+    private _onBreadcrumbClick(path: string): void {
+        this.props.onSelectUSDPrims(new Set([path]));
+        this.revealPaths([path]);
+    }
+
+    /**
+    * @function _renderBreadcrumb
+    *
+    * Render the path of the most recently selected prim. Prims listed in the tree can be selected
+    * from it; the listed root and its ancestors cannot.
+    */
+    private _renderBreadcrumb(): JSX.Element | null {
+        const selected = Array.from(this.props.selectedPaths);
+        const path = selected[selected.length - 1];
+        if (!path)
+            return null;
+
+        const segments = [...ancestorPaths(path), path];
+        const isListed = (item: string) => item !== this.props.stageRoot && isSameOrDescendant(item, this.props.stageRoot);
+        return (
+            <nav className="usdStageBreadcrumb" aria-label="Selected prim" title={path}>
+                {segments.map((item, index) => (
+                    <React.Fragment key={item}>
+                        <span className="usdStageBreadcrumbSeparator">/</span>
+                        {isListed(item) && index < segments.length - 1
+                            ? <button className="usdStageBreadcrumbItem" onClick={() => this._onBreadcrumbClick(item)}>{item.split('/').pop()}</button>
+                            : <span className={`usdStageBreadcrumbItem ${index === segments.length - 1 ? 'current' : ''}`}>{item.split('/').pop()}</span>
+                        }
+                    </React.Fragment>
+                ))}
+                {selected.length > 1 && <span className="usdStageBreadcrumbMore">+{selected.length - 1}</span>}
+            </nav>
+        );
+    }
+
+    /**
+    * @function _renderContextMenu
+    *
+    * Render the actions for the prims the menu was opened on. A transparent backdrop closes
+    * the menu when clicking anywhere else.
+    */
+    private _renderContextMenu(): JSX.Element | null {
+        const menu = this.state.contextMenu;
+        if (!menu)
+            return null;
+
+        const actions = this.props.getPrimActions(menu.paths);
+        const height = (actions.length + 1) * menuItemHeight + 8;
+        return (
+            <>
+                <div
+                    className="usdStageContextMenuBackdrop"
+                    onMouseDown={() => this._closeContextMenu()}
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        this._closeContextMenu();
+                    }}
+                />
+                <div
+                    className="usdStageContextMenu"
+                    role="menu"
+                    style={{ left: menu.x, top: Math.max(0, Math.min(menu.y, window.innerHeight - height)) }}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape')
+                            this._closeContextMenu();
+                    }}>
+                    <div className="usdStageContextMenuTitle" title={menu.paths.join('\n')}>{describePrims(menu.paths)}</div>
+                    {actions.map((action, index) => (
+                        <button
+                            key={action.id}
+                            className="usdStageContextMenuItem"
+                            role="menuitem"
+                            autoFocus={index === 0}
+                            onClick={() => {
+                                this._closeContextMenu();
+                                this.props.onRunPrimAction(action, menu.paths);
+                            }}>
+                            {action.label}
+                        </button>
+                    ))}
+                    {actions.length === 0 && <div className="usdStageContextMenuTitle">No actions available.</div>}
+                </div>
+            </>
+        );
+    }
+
+    /**
+    * @function _renderList
+    *
+    * Render the rows in view. The spacer keeps the scroll height of the whole list.
+    */
+    private _renderList(): JSX.Element {
+        const rows = this._getRows();
+        const first = Math.max(0, Math.floor(this.state.scrollTop / rowHeight) - overscanRows);
+        const last = Math.min(rows.length, Math.ceil((this.state.scrollTop + this.state.viewportHeight) / rowHeight) + overscanRows);
+
+        return (
+            <div
+                className="list-container"
+                role="tree"
+                aria-multiselectable={true}
+                tabIndex={0}
+                ref={this._listRef}
+                onKeyDown={(e) => this._onListKeyDown(e)}
+                onScroll={(e) => this.setState({ scrollTop: e.currentTarget.scrollTop })}
+            >
+                <div className="list-spacer" style={{ height: rows.length * rowHeight }}>
+                    {rows.slice(first, last).map((row, offset) => this._renderRow(row, first + offset))}
+                </div>
+            </div>
+        );
     }
 
     _onReset = () => {
         this.props.onReset();
     };
 
+    /**
+    * @function _togglePrimFilter
+    *
+    * List or stop listing a category of prim types.
+    */
+    private _togglePrimFilter (filter: string): void {
+        const primFilters = this.props.primFilters.includes(filter)
+            ? this.props.primFilters.filter(item => item !== filter)
+            : primFilterOptions.map(option => option.filter).filter(item => item === filter || this.props.primFilters.includes(item));
+        this.props.onChangePrimFilters(primFilters);
+    }
+
+    /**
+    * @function _renderOptions
+    *
+    * Render the choice of the listed root prim and prim types.
+    */
+    private _renderOptions (): JSX.Element {
+        const roots = this.props.stageRoots.includes(this.props.stageRoot) || this.props.stageRoot === '/'
+            ? this.props.stageRoots
+            : [this.props.stageRoot, ...this.props.stageRoots];
+        const filterLabel = this.props.primFilters.length === 0
+            ? 'All types'
+            : primFilterOptions.filter(option => this.props.primFilters.includes(option.filter)).map(option => option.label).join(', ');
+
+        return (
+            <div className="usdStageOptions">
+                <select
+                    className="form-select form-select-sm"
+                    title="Prim to list the stage from"
+                    value={this.props.stageRoot}
+                    onChange={(e) => this.props.onChangeStageRoot(e.target.value)}>
+                    {roots.map(root => <option key={root} value={root}>{root}</option>)}
+                    <option value="/">/ (entire stage)</option>
+                </select>
+                <div className="usdStageFilter">
+                    <button
+                        className="form-select form-select-sm usdStageFilterButton"
+                        title="Prim types to list"
+                        onClick={() => this.setState({ isFilterMenuOpen: !this.state.isFilterMenuOpen })}>
+                        {filterLabel}
+                    </button>
+                    {this.state.isFilterMenuOpen &&
+                        <div className="usdStageFilterMenu" onMouseLeave={() => this.setState({ isFilterMenuOpen: false })}>
+                            {primFilterOptions.map(option => (
+                                <label key={option.filter} className="form-check">
+                                    <input
+                                        type="checkbox"
+                                        className="form-check-input"
+                                        checked={this.props.primFilters.includes(option.filter)}
+                                        onChange={() => this._togglePrimFilter(option.filter)}
+                                    />
+                                    {option.label}
+                                </label>
+                            ))}
+                            <div className="usdStageFilterHint">Select none to list every prim.</div>
+                        </div>
+                    }
+                </div>
+            </div>
+        );
+    }
+
+    /**
+    * @function _renderExport
+    *
+    * Render the export options, or the progress of the running export.
+    */
+    private _renderExport (): JSX.Element | null {
+        if (this.props.exportProgress !== null) {
+            return (
+                <div className="usdStageExport" role="status">
+                    <span>{`Exporting... ${this.props.exportProgress} ${this.props.exportProgress === 1 ? 'prim' : 'prims'} found`}</span>
+                    <button className="nvidia-button" onClick={this.props.onCancelExport}>Cancel</button>
+                </div>
+            );
+        }
+        if (!this.state.isExportOpen)
+            return null;
+
+        const hasSelection = this.props.selectedPaths.size > 0;
+        const scope = hasSelection ? this.state.exportScope : "stage";
+        const formats: { format: StageExportFormat; label: string }[] = [
+            { format: "json", label: 'Nested JSON' },
+            { format: "csv", label: 'Flat CSV' }
+        ];
+        return (
+            <div className="usdStageExport">
+                <select
+                    className="form-select form-select-sm"
+                    title="Prims to export"
+                    value={scope}
+                    onChange={(e) => this.setState({ exportScope: e.target.value as StageExportScope })}>
+                    <option value="stage">Whole stage</option>
+                    <option value="selection" disabled={!hasSelection}>Selected subtrees</option>
+                </select>
+                <select
+                    className="form-select form-select-sm"
+                    title="File format"
+                    value={this.state.exportFormat}
+                    onChange={(e) => this.setState({ exportFormat: e.target.value as StageExportFormat })}>
+                    {formats.map(item => <option key={item.format} value={item.format}>{item.label}</option>)}
+                </select>
+                <button className="nvidia-button" onClick={() => this.props.onExport(scope, this.state.exportFormat)}>Download</button>
+                <button
+                    className="nvidia-button"
+                    title="Copy the paths of the selected prims"
+                    disabled={!hasSelection}
+                    onClick={this.props.onCopySelectionPaths}>
+                    Copy Paths
+                </button>
+            </div>
+        );
+    }
+
+    /**
+    * @function _renderSearchStatus
+    *
+    * Describe the progress and outcome of the current search.
+    */
+    private _renderSearchStatus (): JSX.Element | null {
+        const search = this.props.search;
+        if (!search)
+            return null;
+
+        let text: string;
+        if (search.isSearching)
+            text = `Searching... ${search.matches.size} loaded ${search.matches.size === 1 ? 'prim matches' : 'prims match'}`;
+        else if (search.matches.size === 0)
+            text = 'No matching prims';
+        else
+            text = `${search.matches.size} ${search.matches.size === 1 ? 'match' : 'matches'}${search.truncated ? ' (showing the first results only)' : ''}`;
+
+        return (
+            <div className="usdStageSearchStatus">
+                {text}
+                {search.error && <div className="usdStageSearchError">{search.error}</div>}
+            </div>
+        );
+    }
+
     render() {
         return (
-            <div className="usdStageContainer" style={{ width: this.props.width }}>
+            <div className={`usdStageContainer ${this.props.withProperties ? 'withProperties' : ''}`} style={{ width: this.props.width }}>
                 <div className="usdStageHeader">
                     {'USD Stage'}
-                    <button className="nvidia-button" onClick={this._onReset}>Reset</button>
+                    <div className="usdStageActions">
+                        <button
+                            className="nvidia-button"
+                            title="Select the children of the selected prims"
+                            disabled={this.props.selectedPaths.size === 0}
+                            onClick={this.props.onSelectChildren}>
+                            Select Children
+                        </button>
+                        <button
+                            className="nvidia-button"
+                            title="Hide everything except the selected prims"
+                            disabled={this.props.selectedPaths.size === 0}
+                            onClick={this.props.onIsolateSelection}>
+                            Isolate
+                        </button>
+                        <button className="nvidia-button" title="Make every prim visible" onClick={this.props.onShowAll}>Show All</button>
+                        <button
+                            className="nvidia-button"
+                            title="Download the prims of the stage or copy the selected paths"
+                            onClick={() => this.setState({ isExportOpen: !this.state.isExportOpen })}>
+                            Export
+                        </button>
+                        <button className="nvidia-button" onClick={this._onReset}>Reset</button>
+                    </div>
+                </div>
+                {this._renderExport()}
+                {this.props.stageStatus &&
+                    <div className={`usdStageStatus ${this.props.stageStatus.isError ? 'error' : ''}`} role={this.props.stageStatus.isError ? 'alert' : 'status'}>
+                        {this.props.stageStatus.message}
+                        <button className="usdStageStatusDismiss" title="Dismiss" onClick={this.props.onDismissStageStatus}>×</button>
+                    </div>
+                }
+                {this._renderOptions()}
+                <div className="usdStageSearch">
+                    <input
+                        className="form-control form-control-sm"
+                        placeholder="Search prims by name or /path"
+                        value={this.state.query}
+                        onChange={(e) => this._onQueryChange(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter')
+                                this._search(this.state.query, this.state.typeFilters);
+                        }}
+                    />
+                    <div className="usdStageTypeFilters">
+                        {primTypeFilters.map(filter => (
+                            <button
+                                key={filter.label}
+                                className={`usdStageTypeFilter ${this.state.typeFilters.has(filter.label) ? 'active' : ''}`}
+                                title={filter.types.join(', ')}
+                                onClick={() => this._toggleTypeFilter(filter.label)}>
+                                {filter.label}
+                            </button>
+                        ))}
+                    </div>
+                    {this._renderSearchStatus()}
                 </div>
-                <ul className="list-container">
-                    {this._renderList(this.props.usdPrims)}
-                </ul>
+                {this._renderBreadcrumb()}
+                {this._renderList()}
+                {this._renderContextMenu()}
             </div>
         );
     }
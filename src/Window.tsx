@@ -15,19 +15,41 @@ import AppStream from './AppStream'; // Ensure .tsx extension if needed
 import StreamConfig from '../stream.config.json';
 import USDAsset from "./USDAsset";
 import USDStage from "./USDStage";
+import USDProperties from "./USDProperties";
 import { headerHeight } from './App';
+import KitClient, { KitRequestError } from './KitClient';
+import { kitEvents } from './KitEvents';
+import KitInspector from './KitInspector';
+import { kitMessageLog } from './KitMessageLog';
+import { formatDiagnostics } from './SessionDiagnostics';
+import LoadingProgress from './LoadingProgress';
+import { KitNotReadyError, KitReadinessOptions, defaultReadinessOptions, waitForKitReady } from './KitReadiness';
+import { KitEventPayloads, KitRequestPayloads, PrimVisibility, USDAttributeValue, USDPrimProperties, USDPrimType, USDVariantSet, parseKitEvent } from './Protocol';
+import PrimIndex from './PrimIndex';
+import { PrimAction, StageActionStatus, describePrims, primActions } from './PrimActions';
+import { isSameOrDescendant, movePath, movePaths, parentPath } from './StageChanges';
+import { CatalogAsset, loadCatalog, sampleCatalog } from './AssetCatalog';
+import { addRecentStage, loadRecentStages, saveRecentStages } from './RecentStages';
+import { UrlTokens, exactStageUrlMatch, findStageByUrl, stageUrlError, stageUrlMatch } from './StageUrl';
+import { StageUploadStatus, uploadFileError, uploadStage } from './StageUpload';
+import { StageExportFormat, StageExportScope, countPrims, downloadText, toCSV, toJSON, walkStage } from './StageExport';
+import { loadStagePreferences, saveStagePreferences } from './StagePreferences';
+import { PrimSearchResult, ancestorPaths, isPrimSearchActive, searchLoadedPrims, searchResultLimit } from './PrimSearch';
+import { StageLifecycleEffect, StageLifecycleEvent, StageLifecycleState, USDAssetType, assetFromUrl, createStageLifecycle, transitionStage } from './StageLifecycle';
 
 
-interface USDAssetType {
-    name: string;
-    url: string;
-}
+const readinessOptions: KitReadinessOptions = { ...defaultReadinessOptions, ...StreamConfig.kitReadiness };
+// Values of the tokens in the stage URLs of the catalog for this deployment
+const urlTokens: UrlTokens = StreamConfig.stageUrls.tokens;
 
-interface USDPrimType {
-    name?: string;
-    path: string;
-    children?: USDPrimType[];
-}
+// Prim listed in the USD Stage if Kit does not report the stage's default prim
+const fallbackStageRoot = '/World';
+// Milliseconds to wait for Kit to describe a loaded stage
+const stageInfoTimeout = 3000;
+// Milliseconds a success message of a stage action stays in the USD Stage
+const stageStatusDuration = 4000;
+// Milliseconds to wait for Kit to check a stage URL before opening it unchecked
+const stageUrlTimeout = 5000;
 
 export interface AppProps {
     sessionId: string
@@ -40,52 +62,204 @@ export interface AppProps {
     onStreamFailed: () => void;
 }
 
-interface AppState {
-    usdAssets: USDAssetType[];
-    selectedUSDAsset: USDAssetType;
-    usdPrims: USDPrimType[];
-    selectedUSDPrims: Set<USDPrimType>;
-    isKitReady: boolean;
-    showStream: boolean;
-    showUI: boolean;
+interface PrimPropertiesState {
+    path: string;
+    properties: USDPrimProperties | null;
     isLoading: boolean;
-    loadingText: string; 
+    error: string | null;
 }
 
-interface AppStreamMessageType {
-    event_type: string;
-    payload: any;
+interface PrimVariantsState {
+    path: string;
+    // null until Kit reported the variant sets
+    variantSets: USDVariantSet[] | null;
+    error: string | null;
+}
+
+interface AppState {
+    usdAssets: CatalogAsset[];
+    isCatalogLoading: boolean;
+    // Why the catalog manifest could not be used; the sample stages are listed instead
+    catalogError: string | null;
+    // Stages opened most recently, most recent first
+    recentStages: USDAssetType[];
+    selectedUSDAsset: USDAssetType;
+    usdPrims: USDPrimType[];
+    // incremented whenever children are added to usdPrims, which is updated in place
+    usdPrimsVersion: number;
+    // Prim whose children are listed in the USD Stage, '/' for the whole stage
+    stageRoot: string;
+    // Root prims of the stage the user can list instead
+    stageRoots: string[];
+    // getChildrenRequest filters choosing which prim types are listed
+    primFilters: string[];
+    // Paths of the selected prims in the order they were selected; prims that are not loaded may be selected too
+    selectedPrimPaths: Set<string>;
+    // Paths of the prims Kit reports as invisible
+    hiddenPrimPaths: Set<string>;
+    // Outcome of the last action run from the USD Stage
+    stageStatus: StageActionStatus | null;
+    // Number of prims found by the running export, null if no export is running
+    exportProgress: number | null;
+    // Local file being uploaded to Kit, or whose upload failed
+    upload: StageUploadStatus | null;
+    // true while a file is dragged over the viewer
+    isDraggingFile: boolean;
+    // `failedAt` of the failure whose diagnostics were copied
+    copiedFailureAt: number | null;
+    lifecycle: StageLifecycleState;
+    primProperties: PrimPropertiesState | null;
+    // Variant sets of the prim shown in the properties panel
+    primVariants: PrimVariantsState | null;
+    primSearch: PrimSearchResult | null;
+    protocolError: string | null;
 }
 
 export default class App extends React.Component<AppProps, AppState> {
     
     private usdStageRef = React.createRef<USDStage>();
+    private _kit = this._createKitClient();
+    private _unsubscribers: (() => void)[] = [];
+    private _readinessAbort: AbortController | null = null;
+    // incremented for every search so results of an outdated search are dropped
+    private _searchId = 0;
+    // children requests in flight by prim path, so a prim is never fetched twice at once
+    private _childrenRequests = new Map<string, Promise<void>>();
+    private _primIndex = new PrimIndex();
+    // incremented whenever the tree is cleared so children of an outdated tree are dropped
+    private _treeGeneration = 0;
+    private _stageStatusTimer: ReturnType<typeof setTimeout> | null = null;
+    // incremented whenever the selection changes so an outdated reveal stops
+    private _revealId = 0;
+    private _exportAbort: AbortController | null = null;
+    private _uploadAbort: AbortController | null = null;
+    // URLs of uploaded files, which only exist for this session and so are not remembered
+    private _uploadedUrls = new Set<string>();
+    private _catalogAbort = new AbortController();
+    // resolves once the asset catalog is known, which Kit has to wait for before a stage is opened
+    private _catalogLoad: Promise<void> = Promise.resolve();
+    // kept outside of React state so events arriving before a re-render see the latest state
+    private _lifecycle: StageLifecycleState = createStageLifecycle(StreamConfig.source === "gfn");
     // private _streamConfig: StreamConfigType = getConfig();
     
     constructor(props: AppProps) {
         super(props);
         
-        // list of selectable USD assets
-        const usdAssets: USDAssetType[] = StreamConfig.source === "stream"? [
-            {name: "Sample 1", url:"${omni.usd_viewer.samples}/samples_data/stage01.usd"},
-            {name: "Sample 2", url:"${omni.usd_viewer.samples}/samples_data/stage02.usd"},
-        ]
-        :
-        [
-            {name: "Sample 1", url:"./samples/stage01.usd"},
-            {name: "Sample 2", url:"./samples/stage02.usd"},
-        ];
+        // selectable USD assets until the catalog manifest is loaded
+        const usdAssets = sampleCatalog(StreamConfig.source);
 
         this.state = {
             usdAssets: usdAssets,
+            isCatalogLoading: Boolean(StreamConfig.catalog.url),
+            catalogError: null,
+            recentStages: loadRecentStages(),
             selectedUSDAsset: usdAssets[0],
             usdPrims: [],
-            selectedUSDPrims: new Set<USDPrimType>(),
-            isKitReady: false,
-            showStream: false,
-            showUI: false,
-            loadingText: StreamConfig.source === "gfn" ? "Log in to GeForce NOW to view stream" : (StreamConfig.source === "stream" ? "Waiting for stream to initialize":  "Waiting for stream to begin"),
-            isLoading: StreamConfig.source === "stream" ? true : false
+            usdPrimsVersion: 0,
+            stageRoot: fallbackStageRoot,
+            stageRoots: [],
+            primFilters: loadStagePreferences().primFilters,
+            selectedPrimPaths: new Set<string>(),
+            lifecycle: this._lifecycle,
+            primProperties: null,
+            primVariants: null,
+            primSearch: null,
+            hiddenPrimPaths: new Set<string>(),
+            stageStatus: null,
+            exportProgress: null,
+            upload: null,
+            isDraggingFile: false,
+            copiedFailureAt: null,
+            protocolError: null
+        }
+    }
+
+    componentDidMount() {
+        this._kit = this._createKitClient();
+        this._catalogAbort = new AbortController();
+        this._catalogLoad = this._loadCatalog();
+        this._unsubscribers = [
+            kitEvents.on("openedStageResult", (event) => this._onOpenedStageResult(event.payload)),
+            kitEvents.on("loadingStateResponse", (event) => this._onLoadingStateResponse(event.payload)),
+            kitEvents.on("updateProgressAmount", (event) => this._onProgressAmount(event.payload)),
+            kitEvents.on("updateProgressActivity", (event) => this._onProgressActivity(event.payload)),
+            kitEvents.on("stageSelectionChanged", (event) => this._onStageSelectionChanged(event.payload)),
+            kitEvents.on("primVisibilityChanged", (event) => this._applyVisibility(event.payload.prims)),
+            kitEvents.on("stageChanged", (event) => this._onStageChanged(event.payload)),
+            ...this._registerPrimActions(),
+        ];
+    }
+
+    componentDidUpdate(_prevProps: AppProps, prevState: AppState) {
+        // show the properties of the most recently selected prim
+        if (prevState.selectedPrimPaths !== this.state.selectedPrimPaths) {
+            const path = Array.from(this.state.selectedPrimPaths).pop() ?? null;
+            if (path !== (this.state.primProperties?.path ?? null))
+                this._fetchPrimProperties(path);
+        }
+    }
+
+    componentWillUnmount() {
+        this._catalogAbort.abort();
+        this._readinessAbort?.abort();
+        this._readinessAbort = null;
+        this._exportAbort?.abort();
+        this._uploadAbort?.abort();
+        if (this._stageStatusTimer !== null)
+            clearTimeout(this._stageStatusTimer);
+        this._unsubscribers.forEach(unsubscribe => unsubscribe());
+        this._unsubscribers = [];
+        this._kit.close();
+    }
+
+    /**
+    * @function _createKitClient
+    *
+    * Creates the client used to send messages to Kit and await its responses.
+    */
+    private _createKitClient(): KitClient {
+        return new KitClient((message) => AppStream.sendMessage(JSON.stringify(message)));
+    }
+
+    /**
+    * @function _dispatch
+    *
+    * Advance the stage lifecycle and perform the effects of the transition.
+    */
+    private _dispatch(event: StageLifecycleEvent): void {
+        const { state, effects } = transitionStage(this._lifecycle, event);
+        if (state !== this._lifecycle) {
+            this._lifecycle = state;
+            this.setState({ lifecycle: state });
+        }
+        effects.forEach(effect => this._runEffect(effect));
+    }
+
+    /**
+    * @function _runEffect
+    *
+    * Perform a side effect requested by the stage lifecycle.
+    */
+    private _runEffect(effect: StageLifecycleEffect): void {
+        switch (effect.type) {
+            case "waitForKit":
+                this._waitForKitReady();
+                break;
+            case "queryLoadingState":
+                this._queryLoadingState();
+                break;
+            case "openStage":
+                this._openAsset(effect.asset);
+                break;
+            case "showAsset":
+                // set the USD Asset dropdown to the stage Kit has open
+                this.setState({ selectedUSDAsset: effect.asset });
+                break;
+            case "fetchChildren":
+                if (this._lifecycle.loadedAsset)
+                    this._rememberStage(this._lifecycle.loadedAsset);
+                this._loadStageTree();
+                break;
         }
     }
 
@@ -96,58 +270,87 @@ export default class App extends React.Component<AppProps, AppState> {
     * Receives a 'loadingStateResponse' event type
     */
     private _queryLoadingState(): void {
-        const message: AppStreamMessageType = {
-            event_type: "loadingStateQuery",
-            payload: {}
-        };
-        AppStream.sendMessage(JSON.stringify(message));
+        this._kit.send("loadingStateQuery", {});
     }
 
     /**
      * @function _onStreamStarted
      *
-     * Sends a request to open an asset. If the stream is from GDN it is assumed that the
+     * Starts waiting for Kit to answer. If the stream is from GDN it is assumed that the
      * application will automatically load an asset on startup so a request to open a stage
-     * is not sent. Instead, we wait for the streamed application to send a
-     * openedStageResult message.
+     * is only sent if Kit reports that no stage is open.
      */
-        private _onStreamStarted(): void {
-            this._pollForKitReady()
-        }
+    private _onStreamStarted(): void {
+        this._dispatch({ type: "streamStarted" });
+    }
 
     /**
-    * @function _pollForKitReady
+    * @function _waitForKitReady
     *
-    * Attempts to query Kit's loading state until a response is received.
-    * Once received, the 'isKitReady' flag is set to true and polling ends
+    * Queries Kit's loading state with backoff until a response is received.
+    * If Kit does not answer within the configured maximum wait the lifecycle moves to 'kitUnavailable'.
     */
-    async _pollForKitReady() {
-        if (this.state.isKitReady === true) return
+    private async _waitForKitReady(): Promise<void> {
+        this._readinessAbort?.abort();
+        const abort = new AbortController();
+        this._readinessAbort = abort;
 
-        console.info("polling Kit availability")
-        this._queryLoadingState()
-        setTimeout(() => this._pollForKitReady(), 3000); // Poll every 3 seconds
+        try {
+            await waitForKitReady(this._kit, readinessOptions, abort.signal);
+        }
+        catch (error) {
+            // polling was cancelled by unmounting or by the stream ending
+            if (!(error instanceof KitNotReadyError))
+                return;
+
+            console.error(error.message);
+            this._dispatch({ type: "kitNotReady", error: error.message });
+            return;
+        }
+
+        await this._catalogLoad;
+        if (abort.signal.aborted)
+            return;
+        console.info("Kit is ready to load assets")
+        this._dispatch({ type: "kitReady" });
     }
     
+    /**
+    * @function _loadCatalog
+    *
+    * Replace the sample stages with the assets of the configured catalog manifest.
+    * The sample stages stay listed if the manifest cannot be loaded.
+    */
+    private async _loadCatalog(): Promise<void> {
+        const manifestUrl = StreamConfig.catalog.url;
+        if (!manifestUrl)
+            return;
+
+        try {
+            const usdAssets = await loadCatalog(manifestUrl, this._catalogAbort.signal);
+            console.info(`Loaded ${usdAssets.length} assets from ${manifestUrl}.`);
+            // no stage has been opened yet, since Kit waits for the catalog
+            this.setState({ usdAssets, selectedUSDAsset: usdAssets[0], isCatalogLoading: false });
+        }
+        catch (error) {
+            if (this._catalogAbort.signal.aborted)
+                return;
+            console.error(error);
+            this.setState({ isCatalogLoading: false, catalogError: `${(error as Error).message} Showing the sample stages.` });
+        }
+    }
+
     /**
      * @function _getAsset
      * 
-     * Attempts to retrieve an asset from the list of USD assets based on a supplied USD path
-     * If a match is not found, a USDAssetType with empty values is returned.
+     * Attempts to retrieve an asset from the list of USD assets or the recent stages based on a supplied USD path
+     * If a match is not found, null is returned.
      */
-    private _getAsset(path: string): USDAssetType {
+    private _getAsset(path: string): USDAssetType | null {
         if (!path)
-            return {name: "", url: ""}
-        
-        // returns the file name from a path
-        const getFileNameFromPath = (path: string): string | undefined => path.split(/[/\\]/).pop();
+            return null
 
-        for (const asset of this.state.usdAssets) {
-            if (getFileNameFromPath(asset.url) === getFileNameFromPath(path))
-                return asset
-        }
-        
-        return {name: "", url: ""}
+        return this._findKnownAsset(path);
     }
 
     /**
@@ -158,27 +361,88 @@ export default class App extends React.Component<AppProps, AppState> {
     private _onLoggedIn(userId: string): void {
         if (StreamConfig.source === "gfn"){
             console.info(`Logged in to GeForce NOW as ${userId}`)
-            this.setState({ loadingText: "Waiting for stream to begin", isLoading: false})
+            this._dispatch({ type: "loggedIn" });
         }
     }
 
     /**
-    * @function _openSelectedAsset
+    * @function _openAsset
     *
-    * Send a request to load an asset based on the currently selected asset
+    * Send a request to load an asset, clearing the listing of the previous stage.
     */
-    private _openSelectedAsset(): void {
-        this.setState({ loadingText: "Loading Asset...", showStream: false, isLoading: true })
-        this.setState({ usdPrims: [], selectedUSDPrims: new Set<USDPrimType>() });
+    private _openAsset(usdAsset: USDAssetType): void {
+        this._clearTree();
+        this.setState({ selectedPrimPaths: new Set<string>() });
+        console.log(`Sending request to open asset: ${usdAsset.url}.`);
+        this._kit.send("openStageRequest", { url: usdAsset.url });
+    }
+
+    /**
+    * @function _clearTree
+    *
+    * Empty the USD Stage listing, dropping children and search results still on their way.
+    */
+    private _clearTree(): void {
+        this._treeGeneration++;
+        this._searchId++;
+        this._childrenRequests.clear();
+        this._primIndex.reset([]);
+        this._exportAbort?.abort();
+        this.setState({ usdPrims: [], primSearch: null, hiddenPrimPaths: new Set<string>() });
+        this._setStageStatus(null);
         this.usdStageRef.current?.resetExpandedIds();
-        console.log(`Sending request to open asset: ${this.state.selectedUSDAsset.url}.`);
-        const message: AppStreamMessageType = {
-            event_type: "openStageRequest",
-            payload: {
-                url: this.state.selectedUSDAsset.url
-            }
-        };
-        AppStream.sendMessage(JSON.stringify(message));
+        this.usdStageRef.current?.resetSearch();
+    }
+
+    /**
+    * @function _loadStageTree
+    *
+    * List a newly loaded stage, starting at its default prim. Kit applications that do not
+    * answer stageInfoQuery get /World listed.
+    */
+    private async _loadStageTree(): Promise<void> {
+        this._clearTree();
+        const generation = this._treeGeneration;
+        this._kit.send("watchStageChanges", { enabled: true });
+
+        let stageRoot = fallbackStageRoot;
+        let stageRoots: string[] = [];
+        try {
+            const info = await this._kit.request("stageInfoQuery", {}, { timeout: stageInfoTimeout });
+            stageRoot = info.default_prim_path || '/';
+            stageRoots = info.root_prims.map(prim => prim.path);
+        }
+        catch (error) {
+            if (error instanceof KitRequestError && error.reason === "closed")
+                return;
+            console.warn(`Kit did not report the default prim of the stage; listing ${fallbackStageRoot}.`);
+        }
+
+        if (generation !== this._treeGeneration)
+            return;
+        this.setState({ stageRoot, stageRoots }, () => this._getChildren());
+    }
+
+    /**
+    * @function _onChangeStageRoot
+    *
+    * List the stage from another prim.
+    */
+    private _onChangeStageRoot(stageRoot: string): void {
+        console.log(`Listing the stage from ${stageRoot}.`);
+        this._clearTree();
+        this.setState({ stageRoot }, () => this._getChildren());
+    }
+
+    /**
+    * @function _onChangePrimFilters
+    *
+    * List other prim types and remember the choice.
+    */
+    private _onChangePrimFilters(primFilters: string[]): void {
+        saveStagePreferences({ primFilters });
+        this._clearTree();
+        this.setState({ primFilters }, () => this._getChildren());
     }
 
     /**
@@ -188,11 +452,186 @@ export default class App extends React.Component<AppProps, AppState> {
     */
     private _onSelectUSDAsset (usdAsset: USDAssetType): void {
         console.log(`Asset selected: ${usdAsset.name}.`);
-        this.setState({ selectedUSDAsset: usdAsset }, () => {
-            this._openSelectedAsset();
-        });
+        this._dispatch({ type: "openAsset", asset: usdAsset, now: Date.now() });
     }
     
+    /**
+    * @function _onOpenUrl
+    *
+    * Open a stage by URL after Kit confirmed it can open it. Rejects with the reason the URL
+    * cannot be opened. Kit applications that do not check URLs get the stage opened unchecked.
+    */
+    private async _onOpenUrl (url: string): Promise<void> {
+        url = url.trim();
+        const error = stageUrlError(url) ?? this._kitNotReadyError();
+        if (error)
+            throw new Error(error);
+
+        console.log(`Sending request to check stage URL: ${url}.`);
+        try {
+            const response = await this._kit.request("validateStageUrlRequest", { url: url }, { timeout: stageUrlTimeout });
+            if (response.result === "error")
+                throw new Error(response.error ?? `Kit cannot open ${url}.`);
+        }
+        catch (error) {
+            if (!(error instanceof KitRequestError && error.reason === "timeout"))
+                throw error;
+            console.warn(`Kit did not check ${url}; opening it unchecked.`);
+        }
+        // the URL Kit checked is opened, under the name of a listed asset only if it has this very URL
+        const known = this._findKnownAsset(url);
+        const isListed = known !== null && stageUrlMatch(known.url, url, urlTokens) === exactStageUrlMatch;
+        this._onSelectUSDAsset(isListed ? { name: known.name, url: url } : assetFromUrl(url));
+    }
+
+    /**
+    * @function _kitNotReadyError
+    *
+    * Why no stage can be opened yet, or null once Kit is ready.
+    */
+    private _kitNotReadyError (): string | null {
+        const phase = this._lifecycle.phase.name;
+        if (phase === "connecting" || phase === "waitingForKit" || phase === "kitUnavailable")
+            return "Wait for Kit to be ready before opening a stage.";
+        return null;
+    }
+
+    /**
+    * @function _onUploadFile
+    *
+    * Upload a local stage, or a zip of a stage with its dependencies, to Kit and open it.
+    * An upload running already is cancelled.
+    */
+    private async _onUploadFile (file: File): Promise<void> {
+        this._uploadAbort?.abort();
+        const status: StageUploadStatus = { fileName: file.name, sent: 0, total: file.size, error: null };
+        const error = uploadFileError(file) ?? this._kitNotReadyError();
+        if (error) {
+            this.setState({ upload: { ...status, error } });
+            return;
+        }
+
+        const abort = new AbortController();
+        this._uploadAbort = abort;
+        this.setState({ upload: status });
+        console.log(`Uploading ${file.name} (${file.size} bytes) to Kit.`);
+        try {
+            const url = await uploadStage(this._kit, file, {
+                onProgress: (sent) => this.setState({ upload: { ...status, sent } }),
+                signal: abort.signal
+            });
+            if (abort.signal.aborted)
+                return;
+            this._uploadedUrls.add(url);
+            this.setState({ upload: null });
+            this._onSelectUSDAsset({ name: file.name, url: url });
+        }
+        catch (error) {
+            if (abort.signal.aborted)
+                return;
+            console.error(`Could not upload ${file.name}:`, error);
+            this.setState({ upload: { ...status, error: (error as Error).message } });
+        }
+        finally {
+            if (this._uploadAbort === abort)
+                this._uploadAbort = null;
+        }
+    }
+
+    /**
+    * @function _onCancelUpload
+    *
+    * Cancel the running upload, or dismiss the failed one.
+    */
+    private _onCancelUpload (): void {
+        this._uploadAbort?.abort();
+        this._uploadAbort = null;
+        this.setState({ upload: null });
+    }
+
+    /**
+    * @function _onDragFileOver
+    *
+    * Accept files dragged over the viewer.
+    */
+    private _onDragFileOver (event: React.DragEvent): void {
+        if (!event.dataTransfer.types.includes('Files'))
+            return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+        if (!this.state.isDraggingFile)
+            this.setState({ isDraggingFile: true });
+    }
+
+    /**
+    * @function _onDragFileLeave
+    *
+    * Hide the drop zone once the file is dragged out of the viewer.
+    */
+    private _onDragFileLeave (event: React.DragEvent): void {
+        // moving onto an element inside the viewer is not leaving it
+        if (event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget))
+            return;
+        this.setState({ isDraggingFile: false });
+    }
+
+    /**
+    * @function _onDropFile
+    *
+    * Upload a file dropped on the viewer.
+    */
+    private _onDropFile (event: React.DragEvent): void {
+        if (!event.dataTransfer.types.includes('Files'))
+            return;
+        event.preventDefault();
+        this.setState({ isDraggingFile: false });
+        const files = Array.from(event.dataTransfer.files);
+        if (files.length === 1) {
+            this._onUploadFile(files[0]);
+            return;
+        }
+        this._uploadAbort?.abort();
+        this.setState({ upload: {
+            fileName: `${files.length} files`,
+            sent: 0,
+            total: 0,
+            error: "Drop one file at a time. Put a stage and its dependencies in a zip archive."
+        } });
+    }
+
+    /**
+    * @function _findKnownAsset
+    *
+    * The catalog entry or recent stage naming the same stage as a URL, keeping the name it is
+    * listed by. Catalog entries win ties.
+    */
+    private _findKnownAsset (url: string): USDAssetType | null {
+        return findStageByUrl([...this.state.usdAssets, ...this.state.recentStages], url, urlTokens);
+    }
+
+    /**
+    * @function _rememberStage
+    *
+    * Put a loaded stage at the front of the recent stages.
+    */
+    private _rememberStage (usdAsset: USDAssetType): void {
+        if (this._uploadedUrls.has(usdAsset.url))
+            return;
+        const recentStages = addRecentStage(this.state.recentStages, usdAsset, urlTokens);
+        saveRecentStages(recentStages);
+        this.setState({ recentStages });
+    }
+
+    /**
+    * @function _onClearRecentStages
+    *
+    * Forget the recent stages.
+    */
+    private _onClearRecentStages (): void {
+        saveRecentStages([]);
+        this.setState({ recentStages: [] });
+    }
+
     /**
     * @function _getChildren
     *
@@ -200,16 +639,479 @@ export default class App extends React.Component<AppProps, AppState> {
     * Note that a filter is supported.
     */
     private _getChildren (usdPrim: USDPrimType | null = null): void {
-        // Get geometry prims. If no usdPrim is specified then get children of /World.
-        console.log(`Requesting children for path: ${usdPrim ? usdPrim.path : '/World'}.`);
-        const message: AppStreamMessageType = {
-            event_type: "getChildrenRequest",
-            payload: {
-                prim_path   : usdPrim ? usdPrim.path : '/World',
-                filters     : ['USDGeom']
+        this._fetchChildren(usdPrim)
+        .catch((error: Error) => {
+            if (!(error instanceof KitRequestError && error.reason === "closed"))
+                console.error(error.message);
+        });
+    }
+
+    /**
+    * @function _fetchChildren
+    *
+    * Request the child prims of the given usdPrim and add them to the tree.
+    * Resolves once they were added.
+    */
+    private _fetchChildren (usdPrim: USDPrimType | null = null): Promise<void> {
+        // If no usdPrim is specified then get children of the stage root.
+        const path = usdPrim ? usdPrim.path : this.state.stageRoot;
+        const pending = this._childrenRequests.get(path);
+        if (pending)
+            return pending;
+
+        console.log(`Requesting children for path: ${path}.`);
+        const generation = this._treeGeneration;
+        const request: Promise<void> = this._kit.request("getChildrenRequest", {
+            prim_path   : path,
+            filters     : this.state.primFilters
+        })
+        .then((response) => {
+            if (generation === this._treeGeneration)
+                this._onChildrenReceived(response);
+        })
+        .finally(() => {
+            if (this._childrenRequests.get(path) === request)
+                this._childrenRequests.delete(path);
+        });
+        this._childrenRequests.set(path, request);
+        return request;
+    }
+
+    /**
+    * @function _loadAncestors
+    *
+    * Fetch the children of every ancestor of the given paths that has not been fetched yet,
+    * so the prims at those paths are part of the tree. Ancestors are fetched level by level;
+    * `isCancelled` is checked between levels.
+    */
+    private async _loadAncestors (paths: string[], isCancelled: () => boolean): Promise<void> {
+        const levels: Set<string>[] = [];
+        for (const path of paths) {
+            ancestorPaths(path).forEach((ancestor, depth) => {
+                levels[depth] = levels[depth] ?? new Set<string>();
+                levels[depth].add(ancestor);
+            });
+        }
+
+        for (const level of levels) {
+            if (isCancelled())
+                return;
+            await Promise.all(Array.from(level ?? []).map(path => {
+                const usdPrim = this._findUSDPrimByPath(path);
+                // ancestors above the stage root are not part of the tree
+                return usdPrim && "children" in usdPrim && !Array.isArray(usdPrim.children)
+                    ? this._fetchChildren(usdPrim)
+                    : undefined;
+            }));
+        }
+    }
+
+    /**
+    * @function _onSearchPrims
+    *
+    * Search the stage for prims matching a query and prim types. Loaded prims are matched
+    * right away; Kit is then asked to search the whole stage, and the ancestors of its
+    * matches are fetched so they can be shown in the tree. If Kit cannot search, the
+    * loaded matches are kept.
+    */
+    private async _onSearchPrims (query: string, types: string[]): Promise<void> {
+        const searchId = ++this._searchId;
+        if (!isPrimSearchActive(query, types)) {
+            this.setState({ primSearch: null });
+            return;
+        }
+
+        const loadedMatches = searchLoadedPrims(this._primIndex.values(), query, types);
+        this.setState({ primSearch: { query, types, matches: loadedMatches, isSearching: true, truncated: false, error: null } });
+
+        const isCancelled = () => searchId !== this._searchId;
+        try {
+            const response = await this._kit.request("searchPrimsRequest", {
+                query: query,
+                root_path: this.state.stageRoot,
+                filters: this.state.primFilters,
+                types: types,
+                limit: searchResultLimit
+            });
+            const paths = response.matches.map(match => match.path);
+            await this._loadAncestors(paths, isCancelled);
+            if (isCancelled())
+                return;
+            this.setState({ primSearch: { query, types, matches: new Set(paths), isSearching: false, truncated: response.truncated, error: null } });
+        }
+        catch (error) {
+            if (isCancelled() || (error instanceof KitRequestError && error.reason === "closed"))
+                return;
+            console.error(error);
+            this.setState({
+                primSearch: {
+                    query, types, matches: loadedMatches, isSearching: false, truncated: false,
+                    error: `Kit could not search the stage (${(error as Error).message}). Only loaded prims are shown.`
+                }
+            });
+        }
+    }
+
+    /**
+    * @function _onChildrenReceived
+    *
+    * Streamed app provides children of a parent USDPrimType.
+    */
+    private _onChildrenReceived (response: KitEventPayloads["getChildrenResponse"]): void {
+        console.log('Kit App sent stage prims');
+        const prim_path = response.prim_path;
+        const children = response.children;
+        if (prim_path === this.state.stageRoot) {
+            this._primIndex.replace(this.state.usdPrims, children ?? []);
+            this.setState({ usdPrims: children ?? [] });
+        }
+        else {
+            const usdPrim = this._findUSDPrimByPath(prim_path);
+            // the prim is gone, e.g. because another stage was opened meanwhile
+            if (usdPrim === null)
+                return;
+            this._primIndex.setChildren(usdPrim, children);
+            this.setState(prevState => ({ usdPrimsVersion: prevState.usdPrimsVersion + 1 }));
+        }
+        if (Array.isArray(children)){
+            this._applyVisibility(children
+                .filter(child => child.visible !== undefined)
+                .map(child => ({ path: child.path, visible: child.visible !== false })));
+            this._makePickable(children);
+        }
+    }
+
+    /**
+    * @function _onStageChanged
+    *
+    * Patch the tree with the prims Kit added, removed or renamed, instead of listing the stage
+    * again. Selected, hidden and matching prims follow renames, and removed prims are dropped
+    * from them. Parents of added prims have their children fetched again.
+    */
+    private _onStageChanged (payload: KitEventPayloads["stageChanged"]): void {
+        let usdPrims = this.state.usdPrims;
+        // '' once the listed root is removed
+        let stageRoot = this.state.stageRoot;
+        let stageRoots = this.state.stageRoots;
+        let selected = Array.from(this.state.selectedPrimPaths);
+        let hidden = Array.from(this.state.hiddenPrimPaths);
+        let matches = Array.from(this.state.primSearch?.matches ?? []);
+        let refetch: string[] = [];
+
+        for (const change of payload.changes) {
+            console.log(`Kit App reports a stage change: ${change.kind} ${change.path}.`);
+            if (change.kind === "added") {
+                refetch.push(parentPath(change.path));
+                if (parentPath(change.path) === '/')
+                    stageRoots = [...stageRoots, change.path];
+                continue;
+            }
+
+            const from = change.path;
+            const to = change.kind === "renamed" ? change.new_path : null;
+            selected = movePaths(selected, from, to);
+            hidden = movePaths(hidden, from, to);
+            matches = movePaths(matches, from, to);
+            stageRoots = movePaths(stageRoots, from, to);
+            refetch = movePaths(refetch, from, to);
+            this.usdStageRef.current?.movePrimPaths(from, to);
+
+            if (stageRoot && isSameOrDescendant(stageRoot, from)) {
+                stageRoot = movePath(stageRoot, from, to) ?? '';
+                continue;
+            }
+
+            const parent = parentPath(from);
+            const parentPrim = parent === stageRoot ? null : this._findUSDPrimByPath(parent);
+            const siblings = parentPrim ? parentPrim.children : parent === stageRoot ? usdPrims : undefined;
+            const usdPrim = this._findUSDPrimByPath(from);
+            // the prim was not fetched, so there is nothing to patch
+            if (!usdPrim || !Array.isArray(siblings))
+                continue;
+
+            if (to !== null && parentPath(to) === parent) {
+                this._primIndex.rename(usdPrim, to);
+                continue;
+            }
+
+            // removed, or moved to another parent that lists it once its children are fetched again
+            this._primIndex.remove(usdPrim);
+            const remaining = siblings.filter(item => item !== usdPrim);
+            if (parentPrim)
+                parentPrim.children = remaining;
+            else
+                usdPrims = remaining;
+            if (to !== null)
+                refetch.push(parentPath(to));
+        }
+
+        this.setState(prevState => ({
+            usdPrims,
+            usdPrimsVersion: prevState.usdPrimsVersion + 1,
+            stageRoots,
+            selectedPrimPaths: new Set(selected),
+            hiddenPrimPaths: new Set(hidden),
+            primSearch: prevState.primSearch && { ...prevState.primSearch, matches: new Set(matches) }
+        }));
+
+        if (stageRoot !== this.state.stageRoot) {
+            // the listed root itself was renamed or removed: list the stage again
+            if (stageRoot === '') {
+                this._loadStageTree();
+            }
+            else {
+                this._clearTree();
+                this.setState({ stageRoot }, () => this._getChildren());
+            }
+            return;
+        }
+
+        new Set(refetch).forEach(path => {
+            if (path === stageRoot) {
+                this._getChildren();
+                return;
+            }
+            // prims whose children were never fetched list the added prims once expanded
+            const usdPrim = this._findUSDPrimByPath(path);
+            if (usdPrim && (usdPrim.children === undefined || Array.isArray(usdPrim.children)))
+                this._getChildren(usdPrim);
+        });
+    }
+
+    /**
+    * @function _applyVisibility
+    *
+    * Record the visibility Kit reported for prims.
+    */
+    private _applyVisibility (prims: PrimVisibility[]): void {
+        if (prims.length === 0)
+            return;
+        this.setState(prevState => {
+            const hiddenPrimPaths = new Set(prevState.hiddenPrimPaths);
+            prims.forEach(prim => prim.visible ? hiddenPrimPaths.delete(prim.path) : hiddenPrimPaths.add(prim.path));
+            return { hiddenPrimPaths };
+        });
+    }
+
+    /**
+    * @function _setStageStatus
+    *
+    * Show the outcome of an action in the USD Stage. Success messages disappear after a while.
+    */
+    private _setStageStatus (status: StageActionStatus | null): void {
+        if (this._stageStatusTimer !== null) {
+            clearTimeout(this._stageStatusTimer);
+            this._stageStatusTimer = null;
+        }
+        this.setState({ stageStatus: status });
+        if (status && !status.isError) {
+            this._stageStatusTimer = setTimeout(() => {
+                this._stageStatusTimer = null;
+                this.setState({ stageStatus: null });
+            }, stageStatusDuration);
+        }
+    }
+
+    /**
+    * @function _runStageAction
+    *
+    * Run an action on the stage and report in the USD Stage whether it succeeded.
+    */
+    private async _runStageAction (action: () => Promise<string | void>): Promise<void> {
+        this._setStageStatus(null);
+        try {
+            const message = await action();
+            if (message)
+                this._setStageStatus({ message, isError: false });
+        }
+        catch (error) {
+            if (error instanceof KitRequestError && error.reason === "closed")
+                return;
+            console.error(error);
+            this._setStageStatus({ message: (error as Error).message, isError: true });
+        }
+    }
+
+    /**
+    * @function _requestStageChange
+    *
+    * Send a request that changes the stage. Rejects with Kit's error if Kit did not make the change.
+    */
+    private async _requestStageChange<K extends "setPrimVisibilityRequest" | "isolatePrimsRequest" | "showAllPrimsRequest" | "framePrimsRequest">(eventType: K, payload: KitRequestPayloads[K]): Promise<void> {
+        const response = await this._kit.request(eventType, payload);
+        if (response.result === "error")
+            throw new Error(response.error ?? `Kit did not apply ${eventType}.`);
+    }
+
+    /**
+    * @function _setPrimVisibility
+    *
+    * Show or hide prims. Their rows are updated once Kit confirms the change.
+    */
+    private async _setPrimVisibility (paths: string[], visible: boolean): Promise<void> {
+        console.log(`Sending request to make ${paths} ${visible ? 'visible' : 'invisible'}.`);
+        await this._requestStageChange("setPrimVisibilityRequest", { paths: paths, visible: visible });
+        this._applyVisibility(paths.map(path => ({ path, visible })));
+    }
+
+    /**
+    * @function _isolatePrims
+    *
+    * Hide everything except the prims. Kit reports the prims it hid with primVisibilityChanged.
+    */
+    private async _isolatePrims (paths: string[]): Promise<void> {
+        console.log(`Sending request to isolate: ${paths}.`);
+        await this._requestStageChange("isolatePrimsRequest", { paths: paths });
+    }
+
+    /**
+    * @function _onShowAllPrims
+    *
+    * Make every prim visible. Kit reports the prims it showed with primVisibilityChanged.
+    */
+    private _onShowAllPrims (): void {
+        console.log('Sending request to show all prims.');
+        this._runStageAction(() => this._requestStageChange("showAllPrimsRequest", {}));
+    }
+
+    /**
+    * @function _registerPrimActions
+    *
+    * Add the built-in actions of the prim context menu. Returns the functions removing them.
+    */
+    private _registerPrimActions (): (() => void)[] {
+        const builtInActions: PrimAction[] = [
+            {
+                id: "usdViewer.frame",
+                label: "Frame in viewport",
+                run: async ({ paths }) => {
+                    console.log(`Sending request to frame: ${paths}.`);
+                    await this._requestStageChange("framePrimsRequest", { paths: paths });
+                    return `Framed ${describePrims(paths)}.`;
+                }
+            },
+            {
+                id: "usdViewer.isolate",
+                label: "Isolate",
+                run: async ({ paths }) => {
+                    await this._isolatePrims(paths);
+                    return `Isolated ${describePrims(paths)}.`;
+                }
+            },
+            {
+                id: "usdViewer.hide",
+                label: "Hide",
+                isAvailable: ({ paths }) => paths.some(path => !this.state.hiddenPrimPaths.has(path)),
+                run: async ({ paths }) => {
+                    await this._setPrimVisibility(paths, false);
+                    return `Hid ${describePrims(paths)}.`;
+                }
+            },
+            {
+                id: "usdViewer.show",
+                label: "Show",
+                isAvailable: ({ paths }) => paths.some(path => this.state.hiddenPrimPaths.has(path)),
+                run: async ({ paths }) => {
+                    await this._setPrimVisibility(paths, true);
+                    return `Showed ${describePrims(paths)}.`;
+                }
+            },
+            {
+                id: "usdViewer.copyPath",
+                label: "Copy prim path",
+                run: ({ paths }) => this._copyPaths(paths)
+            },
+            {
+                id: "usdViewer.selectChildren",
+                label: "Select children",
+                run: async ({ paths }) => {
+                    const count = await this._selectChildren(paths);
+                    return count === 0 ? `${describePrims(paths)} has no listed children.` : `Selected ${count} ${count === 1 ? 'child' : 'children'}.`;
+                }
             }
-        };
-        AppStream.sendMessage(JSON.stringify(message));
+        ];
+        return builtInActions.map(action => primActions.registerBuiltIn(action));
+    }
+
+    /**
+    * @function _copyPaths
+    *
+    * Put prim paths on the clipboard, one per line.
+    */
+    private async _copyPaths (paths: string[]): Promise<string> {
+        await navigator.clipboard.writeText(paths.join('\n'));
+        return paths.length === 1 ? `Copied ${paths[0]}.` : `Copied ${paths.length} prim paths.`;
+    }
+
+    /**
+    * @function _exportRoots
+    *
+    * The prims an export starts from: the root prims of the stage, or the selected prims
+    * without those below another selected prim. Selected prims that are not loaded are
+    * walked from their path alone.
+    */
+    private async _exportRoots (scope: StageExportScope, signal: AbortSignal): Promise<USDPrimType[]> {
+        if (scope === "stage") {
+            const response = await this._kit.request("getChildrenRequest", { prim_path: '/', filters: [] }, { signal: signal });
+            return Array.isArray(response.children) ? response.children : [];
+        }
+        const paths = Array.from(this.state.selectedPrimPaths);
+        return paths
+            .filter(path => !paths.some(other => other !== path && isSameOrDescendant(path, other)))
+            .map(path => this._findUSDPrimByPath(path) ?? { path: path, children: [] });
+    }
+
+    /**
+    * @function _exportStage
+    *
+    * Walk the stage or the selected subtrees through Kit and download the prims found.
+    * An export running already is cancelled.
+    */
+    private async _exportStage (scope: StageExportScope, format: StageExportFormat): Promise<string> {
+        this._exportAbort?.abort();
+        const abort = new AbortController();
+        this._exportAbort = abort;
+        this.setState({ exportProgress: 0 });
+        try {
+            const roots = await this._exportRoots(scope, abort.signal).catch(error => {
+                if (abort.signal.aborted)
+                    return null;
+                throw error;
+            });
+            const prims = roots && await walkStage(this._kit, roots, {
+                hiddenPaths: this.state.hiddenPrimPaths,
+                onProgress: (count) => this.setState({ exportProgress: count }),
+                signal: abort.signal
+            });
+            if (!prims)
+                return 'Export cancelled.';
+
+            const url = this.state.selectedUSDAsset.url;
+            const stageName = url.split(/[\\/]/).pop()?.replace(/\.[^.]*$/, '') || 'stage';
+            const fileName = `${stageName}-${scope === "stage" ? 'hierarchy' : 'selection'}.${format}`;
+            if (format === "json")
+                downloadText(fileName, toJSON(url, prims), 'application/json');
+            else
+                downloadText(fileName, toCSV(prims), 'text/csv');
+            const count = countPrims(prims);
+            return `Exported ${count} ${count === 1 ? 'prim' : 'prims'} to ${fileName}.`;
+        }
+        finally {
+            if (this._exportAbort === abort) {
+                this._exportAbort = null;
+                this.setState({ exportProgress: null });
+            }
+        }
+    }
+
+    /**
+    * @function _onRunPrimAction
+    *
+    * Run an action picked from the prim context menu.
+    */
+    private _onRunPrimAction (action: PrimAction, paths: string[]): void {
+        console.log(`Running prim action ${action.id} on ${paths}.`);
+        this._runStageAction(() => action.run({ paths: paths, kit: this._kit }));
     }
 
     /**
@@ -221,13 +1123,7 @@ export default class App extends React.Component<AppProps, AppState> {
     private _makePickable (usdPrims: USDPrimType[]): void {
         const paths: string[] = usdPrims.map(prim => prim.path);
         console.log(`Sending request to make prims pickable: ${paths}.`);
-        const message: AppStreamMessageType = {
-            event_type: "makePrimsPickable",
-            payload: {
-                paths   : paths,
-            }
-        };
-        AppStream.sendMessage(JSON.stringify(message));
+        this._kit.send("makePrimsPickable", { paths: paths });
     }
 
     /**
@@ -236,19 +1132,208 @@ export default class App extends React.Component<AppProps, AppState> {
     * React to user selecting items in the USDStage list.
     * Sends a request to change the selection in the USD Stage.
     */
-    private _onSelectUSDPrims (selectedUsdPrims: Set<USDPrimType>): void {
-        console.log(`Sending request to select: ${selectedUsdPrims}.`);
-        this.setState({ selectedUSDPrims: selectedUsdPrims });
-        const paths: string[] = Array.from(selectedUsdPrims).map(obj => obj.path);
-        const message: AppStreamMessageType = {
-            event_type: "selectPrimsRequest",
-            payload: {
-                paths: paths
+    private _onSelectUSDPrims (selectedPaths: Set<string>): void {
+        const paths: string[] = Array.from(selectedPaths);
+        console.log(`Sending request to select: ${paths}.`);
+        // a reveal of prims picked in the viewport must not scroll away from this selection
+        this._revealId++;
+        this.setState({ selectedPrimPaths: selectedPaths });
+        this._kit.send("selectPrimsRequest", { paths: paths });
+
+        // fetch the children of a single selected prim ahead of it being expanded
+        const usdPrim = paths.length === 1 ? this._findUSDPrimByPath(paths[0]) : null;
+        if (usdPrim)
+            this._onFillUSDPrim(usdPrim);
+    }
+
+    /**
+    * @function _selectChildren
+    *
+    * Replace the selection with the children of prims, fetching them if needed.
+    * Resolves to the number of selected children; the selection is kept if there are none.
+    */
+    private async _selectChildren (paths: string[]): Promise<number> {
+        const parents = paths
+            .map(path => this._findUSDPrimByPath(path))
+            .filter((usdPrim): usdPrim is USDPrimType => usdPrim !== null);
+
+        await Promise.all(parents
+            .filter(usdPrim => "children" in usdPrim && !Array.isArray(usdPrim.children))
+            .map(usdPrim => this._fetchChildren(usdPrim)));
+
+        const children = parents.flatMap(usdPrim => Array.isArray(usdPrim.children) ? usdPrim.children.map(child => child.path) : []);
+        if (children.length > 0)
+            this._onSelectUSDPrims(new Set(children));
+        return children.length;
+    }
+
+    /**
+    * @function _onSelectChildren
+    *
+    * Replace the selection with the children of the selected prims.
+    */
+    private _onSelectChildren (): void {
+        const paths = Array.from(this.state.selectedPrimPaths);
+        this._runStageAction(async () => {
+            if (await this._selectChildren(paths) === 0)
+                return `${describePrims(paths)} has no listed children.`;
+        });
+    }
+
+    /**
+    * @function _fetchPrimProperties
+    *
+    * Request the properties and variant sets of a prim for the properties panel.
+    * A quiet fetch re-reads the properties of the prim shown, keeping them until the new ones
+    * arrive; it leaves the variant sets alone.
+    */
+    private _fetchPrimProperties (path: string | null, quiet: boolean = false): void {
+        if (path === null) {
+            this.setState({ primProperties: null, primVariants: null });
+            return;
+        }
+        if (!quiet)
+            this._fetchVariantSets(path);
+
+        this.setState(prevState => ({
+            primProperties: {
+                path: path,
+                properties: quiet && prevState.primProperties?.path === path ? prevState.primProperties.properties : null,
+                isLoading: !quiet,
+                error: null
+            }
+        }));
+
+        this._kit.request("getPrimPropertiesRequest", { prim_path: path })
+            .then((response) => {
+                // the selection changed while waiting
+                if (this.state.primProperties?.path !== path)
+                    return;
+                this.setState({
+                    primProperties: response.error !== undefined
+                        ? { path, properties: null, isLoading: false, error: response.error }
+                        : { path, properties: response as USDPrimProperties, isLoading: false, error: null }
+                });
+            })
+            .catch((error: Error) => {
+                if ((error instanceof KitRequestError && error.reason === "closed") || this.state.primProperties?.path !== path)
+                    return;
+                console.error(error.message);
+                this.setState({ primProperties: { path, properties: null, isLoading: false, error: error.message } });
+            });
+    }
+
+    /**
+    * @function _fetchVariantSets
+    *
+    * Request the variant sets of a prim for the properties panel.
+    * A quiet fetch keeps showing the current variant sets until the new ones arrive.
+    */
+    private _fetchVariantSets (path: string, quiet: boolean = false): void {
+        this.setState(prevState => ({
+            primVariants: {
+                path: path,
+                variantSets: quiet && prevState.primVariants?.path === path ? prevState.primVariants.variantSets : null,
+                error: null
             }
-        };
-        AppStream.sendMessage(JSON.stringify(message));
+        }));
 
-        selectedUsdPrims.forEach(usdPrim => {this._onFillUSDPrim(usdPrim)});
+        this._kit.request("getVariantSetsRequest", { prim_path: path })
+            .then((response) => {
+                // the selection changed while waiting
+                if (this.state.primVariants?.path !== path)
+                    return;
+                this.setState({ primVariants: { path, variantSets: response.error !== undefined ? null : response.variant_sets, error: response.error ?? null } });
+            })
+            .catch((error: Error) => {
+                if ((error instanceof KitRequestError && error.reason === "closed") || this.state.primVariants?.path !== path)
+                    return;
+                // Kit applications without variant support do not answer
+                console.warn(`Kit did not report the variant sets of ${path}: ${error.message}`);
+                this.setState({ primVariants: { path, variantSets: [], error: null } });
+            });
+    }
+
+    /**
+    * @function _onSetVariant
+    *
+    * Send a variant selection from the properties panel to Kit.
+    * Resolves once Kit confirms it; the prims below the prim, its properties and its variant
+    * sets are then re-read since the variant may change all of them.
+    */
+    private async _onSetVariant (variantSet: string, variant: string): Promise<void> {
+        const path = this.state.primVariants?.path;
+        if (!path)
+            return;
+
+        console.log(`Sending request to select variant ${variant} of ${path}.${variantSet}.`);
+        const response = await this._kit.request("setVariantSelectionRequest", { prim_path: path, variant_set: variantSet, variant: variant });
+        if (response.result === "error")
+            throw new Error(response.error ?? `Kit did not select ${variant}.`);
+
+        this.setState(prevState => {
+            const current = prevState.primVariants;
+            if (current?.path !== path || !current.variantSets)
+                return null;
+            const variantSets = current.variantSets.map(item => item.name === variantSet ? { ...item, selection: variant } : item);
+            return { primVariants: { ...current, variantSets } };
+        });
+        // the listed root prim is not part of the tree itself
+        const usdPrim = this._findUSDPrimByPath(path);
+        if (usdPrim || path === this.state.stageRoot) {
+            this._refreshSubtree(usdPrim).catch((error: Error) => {
+                if (!(error instanceof KitRequestError && error.reason === "closed"))
+                    console.error(error.message);
+            });
+        }
+        this._fetchPrimProperties(path, true);
+        this._fetchVariantSets(path, true);
+    }
+
+    /**
+    * @function _refreshSubtree
+    *
+    * Fetch the children of a prim again, and those of its descendants that were fetched before.
+    * Without a prim, the whole tree below the stage root is fetched again.
+    */
+    private async _refreshSubtree (usdPrim: USDPrimType | null): Promise<void> {
+        if (usdPrim && !Array.isArray(usdPrim.children))
+            return;
+        const stageRoot = this.state.stageRoot;
+        await this._fetchChildren(usdPrim);
+        // the new top-level prims are indexed before usdPrims is updated
+        const children = usdPrim
+            ? usdPrim.children ?? []
+            : Array.from(this._primIndex.values()).filter(prim => parentPath(prim.path) === stageRoot);
+        await Promise.all(children.map(child => this._refreshSubtree(child)));
+    }
+
+    /**
+    * @function _onSetPrimAttribute
+    *
+    * Send an attribute edit from the properties panel to Kit.
+    * Resolves once Kit confirms the edit; the properties are then re-read since the edit
+    * may affect others, such as the world transform.
+    */
+    private async _onSetPrimAttribute (attribute: string, value: USDAttributeValue): Promise<void> {
+        const path = this.state.primProperties?.path;
+        if (!path)
+            return;
+
+        console.log(`Sending request to set ${path}.${attribute} to ${JSON.stringify(value)}.`);
+        const response = await this._kit.request("setPrimAttributeRequest", { prim_path: path, attribute: attribute, value: value });
+        if (response.result === "error")
+            throw new Error(response.error ?? `Kit did not set ${attribute}.`);
+
+        this.setState(prevState => {
+            const current = prevState.primProperties;
+            if (current?.path !== path || !current.properties)
+                return null;
+            const attributes = current.properties.attributes.map(item =>
+                item.name === attribute ? { ...item, value: response.value ?? value } : item);
+            return { primProperties: { ...current, properties: { ...current.properties, attributes } } };
+        });
+        this._fetchPrimProperties(path, true);
     }
 
     /**
@@ -257,20 +1342,9 @@ export default class App extends React.Component<AppProps, AppState> {
     * Clears the selection and sends a request to reset the stage to how it was at the time it loaded.
     */
     private _onStageReset (): void {
-        this.setState({ selectedUSDPrims: new Set<USDPrimType>() });
-        const selection_message: AppStreamMessageType = {
-            event_type: "selectPrimsRequest",
-            payload: {
-                paths: []
-            }
-        };
-        AppStream.sendMessage(JSON.stringify(selection_message));
-
-        const reset_message: AppStreamMessageType = {
-            event_type: "resetStage",
-            payload: {}
-        };
-        AppStream.sendMessage(JSON.stringify(reset_message));
+        this.setState({ selectedPrimPaths: new Set<string>() });
+        this._kit.send("selectPrimsRequest", { paths: [] });
+        this._kit.send("resetStage", {});
     }
 
     /**
@@ -290,137 +1364,288 @@ export default class App extends React.Component<AppProps, AppState> {
     /**
     * @function _findUSDPrimByPath
     *
-    * Recursive search for a USDPrimType object by path.
+    * Look up a fetched USDPrimType object by path.
     */
-    private _findUSDPrimByPath (path: string, array: USDPrimType[] = this.state.usdPrims): USDPrimType | null {
-        if (Array.isArray(array)) {
-            for (const obj of array) {
-                if (obj.path === path) {
-                    return obj;
-                }
-                if (obj.children && obj.children.length > 0) {
-                    const found = this._findUSDPrimByPath(path, obj.children);
-                    if (found) {
-                        return found;
-                    }
-                }
-            }
-        }
-        return null;
+    private _findUSDPrimByPath (path: string): USDPrimType | null {
+        return this._primIndex.get(path) ?? null;
     }
-    
+
     /**
     * @function _handleCustomEvent
     *
-    * Handle message from stream.
+    * Validate a message from the stream and dispatch it through the kitEvents registry.
+    * Malformed messages, and unknown messages nobody subscribed to, are reported.
     */
-    private _handleCustomEvent (event: any): void {
-        if (!event) {
+    private _handleCustomEvent (raw: unknown): void {
+        if (!raw) {
             return;
         }
 
-        // response received once a USD asset is fully loaded
-        if (event.event_type === "openedStageResult") {
-            if (event.payload.result === "success") {
-                this._queryLoadingState() 
-            }
-            else {
-                console.error('Kit App communicates there was an error loading: ' + event.payload.url);
-            }
+        const result = parseKitEvent(raw);
+        if (result.kind === "event") {
+            this._kit.handleEvent(result.event);
+            kitEvents.dispatch(result.event);
         }
-        
-        // response received from the 'loadingStateQuery' request
-        else if (event.event_type == "loadingStateResponse") {
-            // loadingStateRequest is used to poll Kit for proof of life.
-            // For the first loadingStateResponse we set isKitReady to true
-            // and run one more query to find out what the current loading state
-            // is in Kit
-            if (this.state.isKitReady === false) {
-                console.info("Kit is ready to load assets")
-                this.setState({ isKitReady: true })
-                this._queryLoadingState()
-            }
-            
-            else {
-                const usdAsset: USDAssetType = this._getAsset(event.payload.url)
-                const isStageValid: boolean = !!(usdAsset.name && usdAsset.url)
-                
-                // set the USD Asset dropdown to the currently opened stage if it doesn't match
-                if (isStageValid && usdAsset !== undefined && this.state.selectedUSDAsset !== usdAsset)
-                    this.setState({ selectedUSDAsset: usdAsset })
-
-                // if the stage is empty, force-load the selected usd asset; the loading state is irrelevant
-                if (!event.payload.url)
-                    this._openSelectedAsset()
-                
-                // if a stage has been fully loaded and isn't a part of this application, force-load the selected stage
-                else if (!isStageValid && event.payload.loading_state === "idle"){
-                    console.log(`The loaded asset ${event.payload.url} is invalid.`)
-                    this._openSelectedAsset()
-                }
-                
-                // show stream and populate children if the stage is valid and it's done loading
-                if (isStageValid && event.payload.loading_state === "idle")
-                {
-                    this._getChildren()
-                    this.setState({ showStream: true, loadingText: "Asset loaded", showUI: true, isLoading: false })
-                }
+        else if (result.kind === "unknown") {
+            if (!kitEvents.hasHandlers(result.message.event_type)) {
+                console.warn(`Kit App sent an unknown message: ${result.message.event_type}`, result.message.payload);
+                this.setState({ protocolError: `Unknown message from Kit: ${result.message.event_type}` });
             }
+            kitEvents.dispatch(result.message);
         }
-        
-        // Loading progress amount notification.
-        else if (event.event_type === "updateProgressAmount") {
-            console.log('Kit App communicates progress amount.');
-        }
-            
-        // Loading activity notification.
-        else if (event.event_type === "updateProgressActivity") {
-            console.log('Kit App communicates progress activity.');
-            if (this.state.loadingText !== "Loading Asset...")
-                this.setState( {loadingText: "Loading Asset...", isLoading: true} )
-        }
-            
-        // Notification from Kit about user changing the selection via the viewport.
-        else if (event.event_type === "stageSelectionChanged") {
-            console.log(event.payload.prims.constructor.name);
-            if (!Array.isArray(event.payload.prims) || event.payload.prims.length === 0) {
-                console.log('Kit App communicates an empty stage selection.');
-                this.setState({ selectedUSDPrims: new Set<USDPrimType>() });
-            }
-            else {
-                console.log('Kit App communicates selection of a USDPrimType: ' + event.payload.prims.map((obj: any) => obj).join(', '));
-                const usdPrimsToSelect: Set<USDPrimType> = new Set<USDPrimType>();
-                event.payload.prims.forEach((obj: any) => {
-                    const result = this._findUSDPrimByPath(obj);
-                    if (result !== null) {
-                        usdPrimsToSelect.add(result);
-                    }
-                });
-                this.setState({ selectedUSDPrims: usdPrimsToSelect });
-            }
+        else if (result.kind === "malformed") {
+            console.error(`Kit App sent a malformed message: ${result.error}`, result.raw);
+            this.setState({ protocolError: `Malformed message from Kit: ${result.error}` });
         }
-        // Streamed app provides children of a parent USDPrimType
-        else if (event.event_type === "getChildrenResponse") {
-            console.log('Kit App sent stage prims');
-            const prim_path = event.payload.prim_path;
-            const children = event.payload.children;
-            const usdPrim = this._findUSDPrimByPath(prim_path);
-            if (usdPrim === null) {
-                this.setState({ usdPrims: children });
+    }
+
+    /**
+    * @function _onOpenedStageResult
+    *
+    * Response received once a USD asset is fully loaded, or failed to load.
+    */
+    private _onOpenedStageResult (payload: KitEventPayloads["openedStageResult"]): void {
+        if (payload.result === "success") {
+            this._dispatch({ type: "stageOpened", url: payload.url, isLoadingAsset: this._isLoadingAsset(payload.url) });
+        }
+        else {
+            console.error('Kit App communicates there was an error loading: ' + payload.url);
+            this._dispatch({
+                type: "stageFailed",
+                url: payload.url,
+                error: payload.error ?? `Could not open ${payload.url}.`,
+                isLoadingAsset: this._isLoadingAsset(payload.url),
+                now: Date.now()
+            });
+        }
+    }
+
+    /**
+    * @function _isLoadingAsset
+    *
+    * False if a URL Kit reports names another stage than the asset being loaded.
+    * Results without a URL are taken to be about the asset being loaded.
+    */
+    private _isLoadingAsset (url: string): boolean {
+        const phase = this._lifecycle.phase;
+        if (!url || phase.name !== "loading" || !phase.asset)
+            return true;
+        return stageUrlMatch(url, phase.asset.url, urlTokens) > 0;
+    }
+
+    /**
+    * @function _isLoadedAsset
+    *
+    * False if a URL Kit reports names another stage than the loaded asset.
+    */
+    private _isLoadedAsset (url: string): boolean {
+        const loaded = this._lifecycle.loadedAsset;
+        return loaded !== null && stageUrlMatch(url, loaded.url, urlTokens) > 0;
+    }
+
+    /**
+    * @function _onLoadingStateResponse
+    *
+    * Response received from the 'loadingStateQuery' request.
+    */
+    private _onLoadingStateResponse (payload: KitEventPayloads["loadingStateResponse"]): void {
+        this._dispatch({
+            type: "stageReported",
+            url: payload.url,
+            loadingState: payload.loading_state,
+            asset: this._getAsset(payload.url),
+            isLoadedAsset: this._isLoadedAsset(payload.url),
+            selectedAsset: this.state.selectedUSDAsset,
+            now: Date.now()
+        });
+    }
+
+    /**
+    * @function _onProgressAmount
+    *
+    * Loading progress amount notification.
+    */
+    private _onProgressAmount (payload: KitEventPayloads["updateProgressAmount"]): void {
+        let fraction = payload.total ? (payload.current ?? 0) / payload.total : payload.amount;
+        fraction = Math.min(1, Math.max(0, fraction));
+
+        this._dispatch({ type: "progressAmount", fraction: fraction, now: Date.now() });
+    }
+
+    /**
+    * @function _onProgressActivity
+    *
+    * Loading activity notification.
+    */
+    private _onProgressActivity (payload: KitEventPayloads["updateProgressActivity"]): void {
+        this._dispatch({ type: "progressActivity", text: payload.text, now: Date.now() });
+    }
+
+    /**
+    * @function _onCancelLoading
+    *
+    * Ask Kit to stop loading the asset being loaded and re-open the previously loaded asset.
+    */
+    private _onCancelLoading (previousAsset: USDAssetType): void {
+        console.log(`Cancelling load of ${this.state.selectedUSDAsset.url}; reverting to ${previousAsset.url}.`);
+        const phase = this._lifecycle.phase;
+        if (phase.name === "loading" && phase.asset)
+            this._kit.send("cancelOpenStage", { url: phase.asset.url });
+        this._onSelectUSDAsset(previousAsset);
+    }
+
+    /**
+    * @function _onCopyDiagnostics
+    *
+    * Copy the session diagnostics, including the stage load failures, to the clipboard.
+    * They are downloaded instead if the browser does not allow copying.
+    */
+    private async _onCopyDiagnostics (failedAt: number): Promise<void> {
+        const report = formatDiagnostics({
+            source: StreamConfig.source,
+            lifecycle: this._lifecycle,
+            messages: kitMessageLog.entries,
+            now: Date.now()
+        });
+        try {
+            await navigator.clipboard.writeText(report);
+        }
+        catch (error) {
+            console.warn('Could not copy the diagnostics; downloading them instead.', error);
+            downloadText('usd-viewer-diagnostics.txt', report, 'text/plain');
+        }
+        this.setState({ copiedFailureAt: failedAt });
+    }
+
+    /**
+    * @function _renderStatus
+    *
+    * Describe the current lifecycle phase while the stream is hidden.
+    */
+    private _renderStatus (): React.ReactNode {
+        const { phase, loadedAsset } = this.state.lifecycle;
+        switch (phase.name) {
+            case "connecting": {
+                const text = phase.waitingForLogin
+                    ? "Log in to GeForce NOW to view stream"
+                    : (StreamConfig.source === "stream" ? "Waiting for stream to initialize" : "Waiting for stream to begin");
+                return this._renderSpinnerStatus(text, StreamConfig.source === "stream");
             }
-            else {
-                usdPrim.children = children;
-                this.setState({ usdPrims: this.state.usdPrims });
+            case "waitingForKit":
+                return this._renderSpinnerStatus("Waiting for Kit to respond", true);
+            case "kitUnavailable":
+                return (
+                    <div className="loading-indicator-label">
+                        {phase.error}
+                        <button className="nvidia-button" onClick={() => this._dispatch({ type: "retryKit" })}>Retry</button>
+                    </div>
+                );
+            case "checkingStage":
+                return this._renderSpinnerStatus("Checking the open stage", true);
+            case "loading": {
+                const canCancel = !!loadedAsset && loadedAsset.url !== phase.asset?.url;
+                return (
+                    <div className="loading-indicator-label">
+                        Loading Asset...
+                        <LoadingProgress
+                            progress={phase.progress}
+                            cancelLabel={`Cancel and return to ${loadedAsset?.name}`}
+                            onCancel={canCancel && loadedAsset ? () => this._onCancelLoading(loadedAsset) : undefined}
+                            />
+                    </div>
+                );
             }
-            if (Array.isArray(children)){
-                this._makePickable(children);
+            case "failed": {
+                const canGoBack = !!loadedAsset && loadedAsset.url !== phase.asset.url;
+                return (
+                    <div className="loading-indicator-label stage-failure" role="alert">
+                        Failed to load {phase.asset.name}
+                        <div className="stage-failure-error" title={phase.asset.url}>{phase.error}</div>
+                        <div className="stage-failure-actions">
+                            <button className="nvidia-button" onClick={() => this._onSelectUSDAsset(phase.asset)}>Retry</button>
+                            {canGoBack && loadedAsset &&
+                                <button className="nvidia-button" onClick={() => this._onSelectUSDAsset(loadedAsset)}>Back to {loadedAsset.name}</button>
+                            }
+                            <button className="nvidia-button" onClick={() => this._onCopyDiagnostics(phase.failedAt)}>
+                                {this.state.copiedFailureAt === phase.failedAt ? 'Details copied' : 'Copy details'}
+                            </button>
+                        </div>
+                    </div>
+                );
             }
+            case "loaded":
+                return null;
+        }
+    }
+
+    /**
+    * @function _renderSpinnerStatus
+    *
+    * A status text with an optional spinner below it.
+    */
+    private _renderSpinnerStatus (text: string, spinning: boolean): React.ReactNode {
+        return (
+            <div className="loading-indicator-label">
+                {text}
+                <div className="spinner-border" role="status" style={{ marginTop: 10, visibility: spinning ? 'visible' : 'hidden' }} />
+            </div>
+        );
+    }
+
+    /**
+    * @function _onStageSelectionChanged
+    *
+    * Notification from Kit about user changing the selection via the viewport.
+    */
+    private _onStageSelectionChanged (payload: KitEventPayloads["stageSelectionChanged"]): void {
+        if (payload.prims.length === 0) {
+            console.log('Kit App communicates an empty stage selection.');
         }
-        // other messages from app to kit
-        else if (event.messageRecipient === "kit") {
-            console.log("onCustomEvent");
-            console.log(JSON.parse(event.data).event_type);
+        else {
+            console.log('Kit App communicates selection of a USDPrimType: ' + payload.prims.join(', '));
         }
+
+        // Kit echoes the selection the client requested; keep the current order then
+        if (this.state.selectedPrimPaths.size === payload.prims.length && payload.prims.every(path => this.state.selectedPrimPaths.has(path)))
+            return;
+        this.setState({ selectedPrimPaths: new Set(payload.prims) });
+        this._revealPrims(payload.prims);
+    }
+
+    /**
+    * @function _revealPrims
+    *
+    * Show prims picked in the viewport in the USD Stage: fetch the branches leading to them
+    * that were never expanded, expand those and scroll to the last prim.
+    */
+    private async _revealPrims (paths: string[]): Promise<void> {
+        const revealId = ++this._revealId;
+        if (paths.length === 0)
+            return;
+
+        const generation = this._treeGeneration;
+        const isCancelled = () => revealId !== this._revealId || generation !== this._treeGeneration;
+        try {
+            await this._loadAncestors(paths, isCancelled);
+        }
+        catch (error) {
+            if (!(error instanceof KitRequestError && error.reason === "closed"))
+                console.error(error);
+            return;
+        }
+        if (!isCancelled())
+            this.usdStageRef.current?.revealPaths(paths);
+    }
+
+    /**
+    * @function _onStreamTerminated
+    *
+    * Stop waiting for Kit and reject pending requests once the stream is gone.
+    */
+    private _onStreamTerminated (): void {
+        this._readinessAbort?.abort();
+        this._readinessAbort = null;
+        this._kit.close();
     }
 
     /**
@@ -444,6 +1669,10 @@ export default class App extends React.Component<AppProps, AppState> {
     render() {
 
         const sidebarWidth = 300;
+        const { phase, loadedAsset } = this.state.lifecycle;
+        const showStream = phase.name === "loaded";
+        // the asset selector stays available after a failed load so another asset can be picked
+        const showUI = loadedAsset !== null || phase.name === "failed";
         return (
             <div
                 style={{
@@ -452,7 +1681,16 @@ export default class App extends React.Component<AppProps, AppState> {
                     width: '100%',
                     height: '100%'
                 }}
+                onDragOver={showUI ? (e) => this._onDragFileOver(e) : undefined}
+                onDragLeave={showUI ? (e) => this._onDragFileLeave(e) : undefined}
+                onDrop={showUI ? (e) => this._onDropFile(e) : undefined}
             >
+                {/* Drop zone for uploading local files */}
+                {this.state.isDraggingFile &&
+                    <div className="upload-drop-zone" style={{ height: `calc(100% - ${headerHeight}px)` }}>
+                        Drop a .usd, .usda, .usdc, .usdz or .zip file to open it
+                    </div>
+                }
                 <div style={{
                             position: 'absolute',
                             height: `calc(100% - ${headerHeight}px)`,
@@ -460,10 +1698,13 @@ export default class App extends React.Component<AppProps, AppState> {
                 }}>
                     
                 {/* Loading text indicator */}
-                {!this.state.showStream && 
-                    <div className="loading-indicator-label">
-                        {this.state.loadingText}
-                        <div className="spinner-border" role="status" style={{ marginTop: 10, visibility: this.state.isLoading? 'visible': 'hidden' }} />
+                {this._renderStatus()}
+
+                {/* Protocol error report */}
+                {this.state.protocolError &&
+                    <div className="protocol-error" role="alert">
+                        {this.state.protocolError}
+                        <button className="protocol-error-dismiss" onClick={() => this.setState({ protocolError: null })}>×</button>
                     </div>
                 }
 
@@ -481,22 +1722,35 @@ export default class App extends React.Component<AppProps, AppState> {
                     onBlur={() => this._handleAppStreamBlur()}
                     style={{
                         position: 'relative',
-                        visibility: this.state.showStream? 'visible' : 'hidden'
+                        visibility: showStream ? 'visible' : 'hidden'
                     }}
                     onLoggedIn={(userId) => this._onLoggedIn(userId)}
                     handleCustomEvent={(event) => this._handleCustomEvent(event)}
                     onStreamFailed={this.props.onStreamFailed}
+                    onTerminated={() => this._onStreamTerminated()}
                     />
+
+                {/* Message inspector */}
+                <KitInspector />
                 </div>
 
-                {this.state.showUI &&
+                {showUI &&
                 <>
                         
                     {/* USD Asset Selector */}
                     <USDAsset
                         usdAssets={this.state.usdAssets}
                         selectedAssetUrl={this.state.selectedUSDAsset?.url}
+                        urlTokens={urlTokens}
                         onSelectUSDAsset={(value) => this._onSelectUSDAsset(value)}
+                        isLoading={this.state.isCatalogLoading}
+                        error={this.state.catalogError}
+                        recentStages={this.state.recentStages}
+                        onOpenUrl={(url) => this._onOpenUrl(url)}
+                        onClearRecentStages={() => this._onClearRecentStages()}
+                        upload={this.state.upload}
+                        onUploadFile={(file) => this._onUploadFile(file)}
+                        onCancelUpload={() => this._onCancelUpload()}
                         width={sidebarWidth}
                     />
                     {/* USD Stage Listing */}
@@ -504,11 +1758,48 @@ export default class App extends React.Component<AppProps, AppState> {
                         ref={this.usdStageRef}
                         width={sidebarWidth}
                         usdPrims={this.state.usdPrims}
+                        usdPrimsVersion={this.state.usdPrimsVersion}
                         onSelectUSDPrims={(value) => this._onSelectUSDPrims(value)}
-                        selectedUSDPrims={this.state.selectedUSDPrims}
+                        selectedPaths={this.state.selectedPrimPaths}
+                        onSelectChildren={() => this._onSelectChildren()}
+                        hiddenPaths={this.state.hiddenPrimPaths}
+                        onSetVisibility={(paths, visible) => this._runStageAction(() => this._setPrimVisibility(paths, visible))}
+                        onIsolateSelection={() => this._runStageAction(() => this._isolatePrims(Array.from(this.state.selectedPrimPaths)))}
+                        onShowAll={() => this._onShowAllPrims()}
+                        getPrimActions={(paths) => primActions.available({ paths: paths, kit: this._kit })}
+                        onRunPrimAction={(action, paths) => this._onRunPrimAction(action, paths)}
+                        onCopySelectionPaths={() => this._runStageAction(() => this._copyPaths(Array.from(this.state.selectedPrimPaths)))}
+                        onExport={(scope, format) => this._runStageAction(() => this._exportStage(scope, format))}
+                        exportProgress={this.state.exportProgress}
+                        onCancelExport={() => this._exportAbort?.abort()}
+                        stageStatus={this.state.stageStatus}
+                        onDismissStageStatus={() => this._setStageStatus(null)}
                         fillUSDPrim={(value) => this._onFillUSDPrim(value)}
                         onReset={() => this._onStageReset()}
+                        withProperties={this.state.primProperties !== null}
+                        search={this.state.primSearch}
+                        onSearch={(query, types) => this._onSearchPrims(query, types)}
+                        stageRoot={this.state.stageRoot}
+                        stageRoots={this.state.stageRoots}
+                        onChangeStageRoot={(stageRoot) => this._onChangeStageRoot(stageRoot)}
+                        primFilters={this.state.primFilters}
+                        onChangePrimFilters={(primFilters) => this._onChangePrimFilters(primFilters)}
                         />
+                    {/* Properties of the selected prim */}
+                    {this.state.primProperties &&
+                        <USDProperties
+                            width={sidebarWidth}
+                            primPath={this.state.primProperties.path}
+                            properties={this.state.primProperties.properties}
+                            isLoading={this.state.primProperties.isLoading}
+                            error={this.state.primProperties.error}
+                            onSetAttribute={(attribute, value) => this._onSetPrimAttribute(attribute, value)}
+                            variantSets={this.state.primVariants?.variantSets ?? null}
+                            variantsError={this.state.primVariants?.error ?? null}
+                            onSetVariant={(variantSet, variant) => this._onSetVariant(variantSet, variant)}
+                            onRefresh={() => this._fetchPrimProperties(this.state.primProperties?.path ?? null)}
+                            />
+                    }
                     </>
                 }
             </div>
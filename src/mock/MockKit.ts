@@ -0,0 +1,830 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Local stand-in for a USD Viewer Kit application, used when `source` is set to "mock"
+ * in stream.config.json. It answers the messages Window sends from the scripted stages
+ * in stages.ts, so the web UI can be developed and tested without a GPU or a stream.
+ */
+import { KitEventPayloads, KitEventType, KitMessage, KitRequest, KitRequestPayloads, PrimVisibility, StageChange, USDAttribute, USDPrimType } from '../Protocol';
+import { isSameOrDescendant, movePath, parentPath } from '../StageChanges';
+import { MockPrim, MockStage, matchesFilters, mockFailingStages, mockStages, primChildren, uploadedStage } from './stages';
+import { matchesPrimSearch } from '../PrimSearch';
+import { sha256Hex } from '../StageUpload';
+import { defaultAttributes, defaultRelationships, isCompatibleValue, isXformable, localTransform, primMetadata, worldTransform } from './properties';
+
+export interface MockKitOptions {
+    // Milliseconds before the mock answers a message
+    latency: number;
+    // Milliseconds it takes the mock to "load" a stage
+    loadDuration: number;
+}
+
+export const defaultMockKitOptions: MockKitOptions = {
+    latency: 50,
+    loadDuration: 3000
+};
+
+const progressSteps = 10;
+
+// A file being uploaded with beginUploadRequest and uploadChunkRequest
+interface MockUpload {
+    fileName: string;
+    size: number;
+    sha256: string;
+    chunks: (Uint8Array | undefined)[];
+}
+
+// Payload of the mock-only `mockEditStage` message, which changes the stage the way a script
+// or another user would. `type` is the type of an added prim, an Xform by default.
+export type MockStageEdit = StageChange & { type?: string };
+
+export default class MockKitApp {
+    private _emit: (event: { event_type: string; payload: unknown }) => void;
+    private _options: MockKitOptions;
+    private _timers = new Set<ReturnType<typeof setTimeout>>();
+    private _stageUrl = "";
+    private _stage: MockStage | null = null;
+    private _loadingState: "idle" | "loading" = "idle";
+    private _loadId = 0;
+    // Attributes of the prims whose properties were requested, by path; edits are kept here
+    private _attributes = new Map<string, USDAttribute[]>();
+    private _watchingChanges = false;
+    // true once the loaded stage is a copy that can be edited without changing the scripted stage
+    private _isStageCopy = false;
+    private _uploads = new Map<string, MockUpload>();
+    // Stages of finished uploads, by the URL they were stored at
+    private _uploadedStages = new Map<string, () => MockStage>();
+
+    constructor(emit: (event: { event_type: string; payload: unknown }) => void, options: MockKitOptions = defaultMockKitOptions) {
+        this._emit = emit;
+        this._options = options;
+    }
+
+    /**
+    * @function receive
+    *
+    * Handle a message the client sent with AppStream.sendMessage.
+    */
+    public receive(data: string): void {
+        let message: KitRequest;
+        try {
+            message = JSON.parse(data);
+        }
+        catch {
+            console.error('Mock Kit App received a message that is not JSON:', data);
+            return;
+        }
+
+        if ((message as KitMessage).event_type === "mockEditStage") {
+            this._editStage((message as KitMessage).payload as MockStageEdit);
+            return;
+        }
+
+        switch (message.event_type) {
+            case "loadingStateQuery":
+                this._reply("loadingStateResponse", { url: this._stageUrl, loading_state: this._loadingState });
+                break;
+            case "stageInfoQuery":
+                this._reply("stageInfoResponse", {
+                    url: this._stageUrl,
+                    default_prim_path: this._stage ? `/${this._stage.defaultPrim}` : "",
+                    root_prims: (this._stage?.root ?? []).map(prim => ({ name: prim.name, path: `/${prim.name}`, type: prim.type }))
+                });
+                break;
+            case "openStageRequest":
+                this._openStage(message.payload);
+                break;
+            case "validateStageUrlRequest":
+                this._reply("validateStageUrlResponse", this._findStage(message.payload.url)
+                    ? { url: message.payload.url, result: "success" }
+                    : { url: message.payload.url, result: "error", error: `${message.payload.url} was not found.` });
+                break;
+            case "getChildrenRequest":
+                this._getChildren(message.payload);
+                break;
+            case "selectPrimsRequest":
+                this._reply("stageSelectionChanged", { prims: message.payload.paths });
+                break;
+            case "getPrimPropertiesRequest":
+                this._getPrimProperties(message.payload);
+                break;
+            case "setPrimAttributeRequest":
+                this._setPrimAttribute(message.payload);
+                break;
+            case "searchPrimsRequest":
+                this._searchPrims(message.payload);
+                break;
+            case "setPrimVisibilityRequest":
+                this._setPrimVisibility(message.payload);
+                break;
+            case "isolatePrimsRequest":
+                this._isolatePrims(message.payload);
+                break;
+            case "framePrimsRequest":
+                this._framePrims(message.payload);
+                break;
+            case "getVariantSetsRequest":
+                this._getVariantSets(message.payload);
+                break;
+            case "setVariantSelectionRequest":
+                this._setVariantSelection(message.payload);
+                break;
+            case "showAllPrimsRequest":
+                this._reportVisibility(this._showAll());
+                this._reply("showAllPrimsResponse", { result: "success" });
+                break;
+            case "resetStage": {
+                // authored edits are discarded
+                const changes = this._showAll();
+                this._attributes.clear();
+                this._reportVisibility(changes);
+                break;
+            }
+            case "beginUploadRequest":
+                this._beginUpload(message.payload);
+                break;
+            case "uploadChunkRequest":
+                this._receiveChunk(message.payload);
+                break;
+            case "finishUploadRequest":
+                this._finishUpload(message.payload);
+                break;
+            case "cancelOpenStage":
+                this._cancelOpenStage(message.payload);
+                break;
+            case "cancelUpload":
+                this._uploads.delete(message.payload.upload_id);
+                break;
+            case "watchStageChanges":
+                this._watchingChanges = message.payload.enabled;
+                break;
+            case "makePrimsPickable":
+                break;
+            default:
+                console.warn('Mock Kit App does not handle this message:', message);
+        }
+    }
+
+    /**
+    * @function stop
+    *
+    * Cancel all scheduled replies.
+    */
+    public stop(): void {
+        this._timers.forEach(timer => clearTimeout(timer));
+        this._timers.clear();
+    }
+
+    /**
+    * @function _reply
+    *
+    * Send an event to the client after the configured latency.
+    */
+    private _reply<K extends KitEventType>(eventType: K, payload: KitEventPayloads[K], delay: number = this._options.latency): void {
+        const timer = setTimeout(() => {
+            this._timers.delete(timer);
+            this._emit({ event_type: eventType, payload: payload });
+        }, delay);
+        this._timers.add(timer);
+    }
+
+    /**
+    * @function _openStage
+    *
+    * Pretend to load a stage, reporting progress along the way.
+    */
+    private _openStage(payload: KitRequestPayloads["openStageRequest"]): void {
+        const fileName = payload.url.split(/[/\\]/).pop() ?? "";
+        const stage = this._findStage(payload.url)?.();
+        const failure = mockFailingStages[fileName];
+        if (!stage && !failure) {
+            this._reply("openedStageResult", { url: payload.url, result: "error", error: `Could not open ${payload.url}: file not found.` });
+            return;
+        }
+
+        const loadId = ++this._loadId;
+        this._stageUrl = payload.url;
+        this._stage = null;
+        this._attributes.clear();
+        this._loadingState = "loading";
+
+        const stepDuration = this._options.loadDuration / progressSteps;
+        for (let step = 1; step <= progressSteps; step++) {
+            const timer = setTimeout(() => {
+                this._timers.delete(timer);
+                if (loadId !== this._loadId)
+                    return;
+                this._emit({ event_type: "updateProgressActivity", payload: { text: `Loading ${fileName}: layer ${step} of ${progressSteps}` } });
+                this._emit({ event_type: "updateProgressAmount", payload: { amount: step / progressSteps, current: step, total: progressSteps } });
+            }, this._options.latency + step * stepDuration);
+            this._timers.add(timer);
+        }
+
+        const timer = setTimeout(() => {
+            this._timers.delete(timer);
+            if (loadId !== this._loadId)
+                return;
+            this._loadingState = "idle";
+            if (!stage) {
+                this._stageUrl = "";
+                this._emit({ event_type: "openedStageResult", payload: { url: payload.url, result: "error", error: failure } });
+                return;
+            }
+            this._stage = stage;
+            this._isStageCopy = false;
+            this._emit({ event_type: "openedStageResult", payload: { url: payload.url, result: "success" } });
+        }, this._options.latency + this._options.loadDuration + stepDuration / 2);
+        this._timers.add(timer);
+    }
+
+    /**
+    * @function _cancelOpenStage
+    *
+    * Stop loading a stage, which then fails to open.
+    */
+    private _cancelOpenStage(payload: KitRequestPayloads["cancelOpenStage"]): void {
+        if (this._loadingState !== "loading" || payload.url !== this._stageUrl)
+            return;
+        this._loadId++;
+        this._stageUrl = "";
+        this._loadingState = "idle";
+        this._reply("openedStageResult", { url: payload.url, result: "error", error: `Loading ${payload.url} was cancelled.` });
+    }
+
+    /**
+    * @function _findStage
+    *
+    * The scripted or uploaded stage served for a URL.
+    */
+    private _findStage(url: string): (() => MockStage) | undefined {
+        return this._uploadedStages.get(url) ?? mockStages[url.split(/[/\\]/).pop() ?? ""];
+    }
+
+    /**
+    * @function _beginUpload
+    *
+    * Get ready to receive the chunks of a file.
+    */
+    private _beginUpload(payload: KitRequestPayloads["beginUploadRequest"]): void {
+        if (payload.chunk_count < 1 || payload.size < 1) {
+            this._reply("beginUploadResponse", { upload_id: payload.upload_id, result: "error", error: `${payload.file_name} is empty.` });
+            return;
+        }
+        this._uploads.set(payload.upload_id, {
+            fileName: payload.file_name,
+            size: payload.size,
+            sha256: payload.sha256,
+            chunks: new Array(payload.chunk_count).fill(undefined)
+        });
+        this._reply("beginUploadResponse", { upload_id: payload.upload_id, result: "success" });
+    }
+
+    /**
+    * @function _receiveChunk
+    *
+    * Store a chunk of an upload once its digest matches.
+    */
+    private async _receiveChunk(payload: KitRequestPayloads["uploadChunkRequest"]): Promise<void> {
+        const fail = (error: string) => this._reply("uploadChunkResponse", { upload_id: payload.upload_id, index: payload.index, result: "error", error });
+
+        const upload = this._uploads.get(payload.upload_id);
+        if (!upload)
+            return fail("The upload was not started or was cancelled.");
+        if (!Number.isInteger(payload.index) || payload.index < 0 || payload.index >= upload.chunks.length)
+            return fail(`Part ${payload.index} is not part of ${upload.fileName}.`);
+
+        let decoded: string;
+        try {
+            decoded = atob(payload.data);
+        }
+        catch {
+            return fail(`Part ${payload.index + 1} of ${upload.fileName} is not base64.`);
+        }
+        const bytes = Uint8Array.from(decoded, character => character.charCodeAt(0));
+        if (await sha256Hex(bytes) !== payload.sha256)
+            return fail(`Part ${payload.index + 1} of ${upload.fileName} was damaged on the way.`);
+
+        upload.chunks[payload.index] = bytes;
+        this._reply("uploadChunkResponse", { upload_id: payload.upload_id, index: payload.index, result: "success" });
+    }
+
+    /**
+    * @function _finishUpload
+    *
+    * Check the whole file and store it. Zip archives are "extracted" to a stage named after them.
+    */
+    private async _finishUpload(payload: KitRequestPayloads["finishUploadRequest"]): Promise<void> {
+        const fail = (error: string) => this._reply("finishUploadResponse", { upload_id: payload.upload_id, result: "error", error });
+
+        const upload = this._uploads.get(payload.upload_id);
+        this._uploads.delete(payload.upload_id);
+        if (!upload)
+            return fail("The upload was not started or was cancelled.");
+        const missing = upload.chunks.findIndex(chunk => chunk === undefined);
+        if (missing >= 0)
+            return fail(`Part ${missing + 1} of ${upload.fileName} did not arrive.`);
+
+        const bytes = new Uint8Array(upload.size);
+        let offset = 0;
+        for (const chunk of upload.chunks as Uint8Array[]) {
+            if (offset + chunk.length > bytes.length)
+                return fail(`${upload.fileName} is larger than announced.`);
+            bytes.set(chunk, offset);
+            offset += chunk.length;
+        }
+        if (offset !== upload.size || await sha256Hex(bytes) !== upload.sha256)
+            return fail(`${upload.fileName} does not match its checksum.`);
+
+        const stageName = upload.fileName.replace(/\.zip$/i, '.usd');
+        const url = `/tmp/uploads/${payload.upload_id}/${stageName}`;
+        this._uploadedStages.set(url, mockStages[stageName] ?? (() => uploadedStage(stageName)));
+        this._reply("finishUploadResponse", { upload_id: payload.upload_id, result: "success", url });
+    }
+
+    /**
+    * @function _getChildren
+    *
+    * Answer with the children of a prim, the way the USD Viewer template reports them.
+    */
+    private _getChildren(payload: KitRequestPayloads["getChildrenRequest"]): void {
+        const result = this._childrenOf(payload.prim_path)
+            .filter(child => matchesFilters(child, payload.filters))
+            .map(child => ({
+                name: child.name,
+                path: this._childPath(payload.prim_path, child.name),
+                type: child.type,
+                visible: this._isVisible(this._childPath(payload.prim_path, child.name)),
+                // Kit sends a non-array children value for prims whose children have not been requested
+                ...(primChildren(child).length > 0 && { children: {} })
+            }));
+
+        this._reply("getChildrenResponse", { prim_path: payload.prim_path, children: result as unknown as USDPrimType[] });
+    }
+
+    /**
+    * @function _searchPrims
+    *
+    * Answer with the prims below the root that match a search, including prims whose
+    * parents were never fetched. Only branches passing the filters are searched, like
+    * getChildrenRequest would list them.
+    */
+    private _searchPrims(payload: KitRequestPayloads["searchPrimsRequest"]): void {
+        const matches: USDPrimType[] = [];
+        let truncated = false;
+
+        const visit = (prims: MockPrim[], parentPath: string) => {
+            for (const prim of prims) {
+                if (!matchesFilters(prim, payload.filters))
+                    continue;
+                const path = this._childPath(parentPath, prim.name);
+                if (matchesPrimSearch({ name: prim.name, path, type: prim.type }, payload.query, payload.types)) {
+                    if (matches.length === payload.limit) {
+                        truncated = true;
+                        return;
+                    }
+                    matches.push({ name: prim.name, path, type: prim.type });
+                }
+                visit(primChildren(prim), path);
+                if (truncated)
+                    return;
+            }
+        };
+        visit(this._childrenOf(payload.root_path), payload.root_path);
+
+        this._reply("searchPrimsResponse", { query: payload.query, types: payload.types, matches, truncated });
+    }
+
+    /**
+    * @function _getPrimProperties
+    *
+    * Answer with the attributes, relationships, metadata and world transform of a prim.
+    */
+    private _getPrimProperties(payload: KitRequestPayloads["getPrimPropertiesRequest"]): void {
+        const chain = this._findPrimChain(payload.prim_path);
+        if (!chain || !this._stage) {
+            this._reply("getPrimPropertiesResponse", { prim_path: payload.prim_path, error: `No prim at ${payload.prim_path}.` });
+            return;
+        }
+
+        const prim = chain[chain.length - 1];
+        this._reply("getPrimPropertiesResponse", {
+            prim_path: payload.prim_path,
+            type: prim.type,
+            attributes: this._attributesOf(payload.prim_path, chain),
+            relationships: defaultRelationships(prim, this._stage.defaultPrim),
+            metadata: primMetadata(prim),
+            ...(isXformable(prim) && {
+                world_transform: worldTransform(chain
+                    .map((item, index) => ({ item, index }))
+                    .filter(({ item }) => isXformable(item))
+                    .map(({ index }) => localTransform(this._attributesOf(this._pathOf(chain, index), chain.slice(0, index + 1)))))
+            })
+        });
+    }
+
+    /**
+    * @function _setPrimAttribute
+    *
+    * Author an attribute value if the attribute exists, is writable and the value has the right shape.
+    */
+    private _setPrimAttribute(payload: KitRequestPayloads["setPrimAttributeRequest"]): void {
+        const fail = (error: string) =>
+            this._reply("setPrimAttributeResponse", { prim_path: payload.prim_path, attribute: payload.attribute, result: "error", error });
+
+        const chain = this._findPrimChain(payload.prim_path);
+        if (!chain)
+            return fail(`No prim at ${payload.prim_path}.`);
+
+        const attribute = this._attributesOf(payload.prim_path, chain).find(item => item.name === payload.attribute);
+        if (!attribute)
+            return fail(`${payload.prim_path} has no attribute ${payload.attribute}.`);
+        if (!attribute.writable)
+            return fail(`${payload.attribute} is read-only.`);
+        if (!isCompatibleValue(attribute.value, payload.value))
+            return fail(`${JSON.stringify(payload.value)} is not a valid ${attribute.type_name} value.`);
+
+        const wasVisible = this._isVisible(payload.prim_path);
+        attribute.value = payload.value;
+        this._reply("setPrimAttributeResponse", { prim_path: payload.prim_path, attribute: payload.attribute, result: "success", value: payload.value });
+        if (this._isVisible(payload.prim_path) !== wasVisible)
+            this._reportVisibility([{ path: payload.prim_path, visible: !wasVisible }]);
+    }
+
+    /**
+    * @function _setPrimVisibility
+    *
+    * Make prims visible or invisible. Nothing changes if any of them cannot be hidden.
+    */
+    private _setPrimVisibility(payload: KitRequestPayloads["setPrimVisibilityRequest"]): void {
+        const fail = (error: string) =>
+            this._reply("setPrimVisibilityResponse", { paths: payload.paths, visible: payload.visible, result: "error", error });
+
+        const chains: MockPrim[][] = [];
+        for (const path of payload.paths) {
+            const chain = this._findPrimChain(path);
+            if (!chain)
+                return fail(`No prim at ${path}.`);
+            if (!this._visibilityAttribute(path, chain))
+                return fail(`${path} is a ${chain[chain.length - 1].type} and cannot be hidden.`);
+            chains.push(chain);
+        }
+
+        const changes = payload.paths
+            .map((path, index) => this._setVisible(path, chains[index], payload.visible))
+            .filter((change): change is PrimVisibility => change !== null);
+        this._reply("setPrimVisibilityResponse", { paths: payload.paths, visible: payload.visible, result: "success" });
+        this._reportVisibility(changes);
+    }
+
+    /**
+    * @function _isolatePrims
+    *
+    * Hide every prim that is not one of the isolated prims, one of their ancestors or one of
+    * their descendants, by hiding the siblings along the way down to each isolated prim.
+    */
+    private _isolatePrims(payload: KitRequestPayloads["isolatePrimsRequest"]): void {
+        const fail = (error: string) =>
+            this._reply("isolatePrimsResponse", { paths: payload.paths, result: "error", error });
+
+        if (!this._stage)
+            return fail("No stage is loaded.");
+        if (payload.paths.length === 0)
+            return fail("Select the prims to isolate.");
+
+        // the isolated prims and their ancestors stay visible
+        const kept = new Set<string>();
+        for (const path of payload.paths) {
+            const chain = this._findPrimChain(path);
+            if (!chain)
+                return fail(`No prim at ${path}.`);
+            chain.forEach((_, index) => kept.add(this._pathOf(chain, index)));
+        }
+
+        const changes: PrimVisibility[] = [];
+        const visit = (prims: MockPrim[], parentChain: MockPrim[], parentPath: string) => {
+            for (const prim of prims) {
+                const path = this._childPath(parentPath, prim.name);
+                const chain = [...parentChain, prim];
+                const change = this._setVisible(path, chain, kept.has(path));
+                if (change)
+                    changes.push(change);
+                if (kept.has(path) && !payload.paths.includes(path))
+                    visit(primChildren(prim), chain, path);
+            }
+        };
+        visit(this._stage.root, [], '/');
+
+        this._reply("isolatePrimsResponse", { paths: payload.paths, result: "success" });
+        this._reportVisibility(changes);
+    }
+
+    /**
+    * @function _editStage
+    *
+    * Add, remove or rename a prim and report it with stageChanged if the client watches changes.
+    */
+    private _editStage(edit: MockStageEdit): void {
+        const error = this._applyEdit(edit);
+        if (error) {
+            console.warn(`Mock Kit App cannot edit the stage: ${error}`);
+            return;
+        }
+        if (this._watchingChanges) {
+            const change: StageChange = edit.kind === "renamed"
+                ? { kind: "renamed", path: edit.path, new_path: edit.new_path }
+                : { kind: edit.kind, path: edit.path };
+            this._reply("stageChanged", { changes: [change] });
+        }
+    }
+
+    /**
+    * @function _applyEdit
+    *
+    * Change the loaded stage, returning why the edit is not possible if it is not.
+    */
+    private _applyEdit(edit: MockStageEdit): string | null {
+        if (!this._stage)
+            return "no stage is loaded";
+        if (typeof edit?.path !== "string" || !edit.path.startsWith('/') || edit.path === '/')
+            return "'path' must be a prim path";
+
+        this._copyStage();
+        const name = edit.path.split('/').pop() ?? "";
+        const parent = parentPath(edit.path);
+        const parentPrim = parent === '/' ? null : this._findPrim(parent);
+        if (parent !== '/' && !parentPrim)
+            return `there is no prim at ${parent}`;
+        const siblings = parentPrim ? parentPrim.children ?? [] : this._stage.root;
+
+        switch (edit.kind) {
+            case "added": {
+                if (siblings.some(prim => prim.name === name))
+                    return `${edit.path} already exists`;
+                siblings.push({ name, type: edit.type ?? "Xform" });
+                if (parentPrim)
+                    parentPrim.children = siblings;
+                return null;
+            }
+            case "removed": {
+                const index = siblings.findIndex(prim => prim.name === name);
+                if (index === -1)
+                    return `there is no prim at ${edit.path}`;
+                siblings.splice(index, 1);
+                this._moveAttributes(edit.path, null);
+                return null;
+            }
+            case "renamed": {
+                const prim = siblings.find(item => item.name === name);
+                if (!prim)
+                    return `there is no prim at ${edit.path}`;
+                if (typeof edit.new_path !== "string" || parentPath(edit.new_path) !== parent)
+                    return "'new_path' must be a path next to 'path'";
+                const newName = edit.new_path.split('/').pop() ?? "";
+                if (!newName || siblings.some(item => item.name === newName))
+                    return `${edit.new_path} already exists`;
+                prim.name = newName;
+                this._moveAttributes(edit.path, edit.new_path);
+                return null;
+            }
+            default:
+                return "'kind' must be 'added', 'removed' or 'renamed'";
+        }
+    }
+
+    /**
+    * @function _copyStage
+    *
+    * Make the loaded stage a copy before it is changed, since the scripted stages are shared.
+    */
+    private _copyStage(): void {
+        if (this._stage && !this._isStageCopy) {
+            this._stage = structuredClone(this._stage);
+            this._isStageCopy = true;
+        }
+    }
+
+    /**
+    * @function _getVariantSets
+    *
+    * Answer with the variant sets of a prim and their selections.
+    */
+    private _getVariantSets(payload: KitRequestPayloads["getVariantSetsRequest"]): void {
+        const prim = this._findPrim(payload.prim_path);
+        if (!prim) {
+            this._reply("getVariantSetsResponse", { prim_path: payload.prim_path, variant_sets: [], error: `No prim at ${payload.prim_path}.` });
+            return;
+        }
+        this._reply("getVariantSetsResponse", {
+            prim_path: payload.prim_path,
+            variant_sets: (prim.variantSets ?? []).map(variantSet => ({
+                name: variantSet.name,
+                variants: Object.keys(variantSet.variants),
+                selection: variantSet.selection
+            }))
+        });
+    }
+
+    /**
+    * @function _setVariantSelection
+    *
+    * Select a variant, which swaps the prims the previous variant added below the prim.
+    */
+    private _setVariantSelection(payload: KitRequestPayloads["setVariantSelectionRequest"]): void {
+        const fail = (error: string) => this._reply("setVariantSelectionResponse", { ...payload, result: "error", error });
+
+        if (!this._findPrim(payload.prim_path))
+            return fail(`No prim at ${payload.prim_path}.`);
+        this._copyStage();
+        const variantSet = this._findPrim(payload.prim_path)?.variantSets?.find(item => item.name === payload.variant_set);
+        if (!variantSet)
+            return fail(`${payload.prim_path} has no variant set ${payload.variant_set}.`);
+        if (!(payload.variant in variantSet.variants))
+            return fail(`${payload.variant_set} has no variant ${payload.variant}.`);
+
+        variantSet.selection = payload.variant;
+        this._reply("setVariantSelectionResponse", { ...payload, result: "success" });
+    }
+
+    /**
+    * @function _moveAttributes
+    *
+    * Move the authored attributes of a renamed prim and its descendants, or drop them when `to` is null.
+    */
+    private _moveAttributes(from: string, to: string | null): void {
+        for (const [path, attributes] of Array.from(this._attributes.entries())) {
+            if (!isSameOrDescendant(path, from))
+                continue;
+            this._attributes.delete(path);
+            const moved = movePath(path, from, to);
+            if (moved !== null)
+                this._attributes.set(moved, attributes);
+        }
+    }
+
+    /**
+    * @function _framePrims
+    *
+    * Pretend to frame prims in the viewport. Only prims that are drawn have bounds to frame.
+    */
+    private _framePrims(payload: KitRequestPayloads["framePrimsRequest"]): void {
+        const fail = (error: string) =>
+            this._reply("framePrimsResponse", { paths: payload.paths, result: "error", error });
+
+        if (payload.paths.length === 0)
+            return fail("Select the prims to frame.");
+        for (const path of payload.paths) {
+            const chain = this._findPrimChain(path);
+            if (!chain)
+                return fail(`No prim at ${path}.`);
+            if (!this._visibilityAttribute(path, chain))
+                return fail(`${path} is a ${chain[chain.length - 1].type} and has no bounds.`);
+        }
+        this._reply("framePrimsResponse", { paths: payload.paths, result: "success" });
+    }
+
+    /**
+    * @function _showAll
+    *
+    * Make every invisible prim visible again and return the changes.
+    */
+    private _showAll(): PrimVisibility[] {
+        const changes: PrimVisibility[] = [];
+        this._attributes.forEach((attributes, path) => {
+            const attribute = attributes.find(item => item.name === "visibility");
+            if (attribute && attribute.value === "invisible") {
+                attribute.value = "inherited";
+                changes.push({ path, visible: true });
+            }
+        });
+        return changes;
+    }
+
+    /**
+    * @function _reportVisibility
+    *
+    * Tell the client which prims changed visibility, if any did.
+    */
+    private _reportVisibility(changes: PrimVisibility[]): void {
+        if (changes.length > 0)
+            this._reply("primVisibilityChanged", { prims: changes });
+    }
+
+    /**
+    * @function _isVisible
+    *
+    * False if the prim is authored invisible. Prims whose attributes were never touched are visible.
+    */
+    private _isVisible(path: string): boolean {
+        return this._attributes.get(path)?.find(item => item.name === "visibility")?.value !== "invisible";
+    }
+
+    /**
+    * @function _visibilityAttribute
+    *
+    * The visibility attribute of a prim; absent for prims that are not imageable, like materials.
+    */
+    private _visibilityAttribute(path: string, chain: MockPrim[]): USDAttribute | undefined {
+        return this._attributesOf(path, chain).find(item => item.name === "visibility");
+    }
+
+    /**
+    * @function _setVisible
+    *
+    * Author the visibility of a prim, returning the change or null if there was none.
+    */
+    private _setVisible(path: string, chain: MockPrim[], visible: boolean): PrimVisibility | null {
+        const attribute = this._visibilityAttribute(path, chain);
+        const value = visible ? "inherited" : "invisible";
+        if (!attribute || attribute.value === value)
+            return null;
+        attribute.value = value;
+        return { path, visible };
+    }
+
+    /**
+    * @function _attributesOf
+    *
+    * The current attributes of the last prim of a chain, created on first use.
+    */
+    private _attributesOf(path: string, chain: MockPrim[]): USDAttribute[] {
+        let attributes = this._attributes.get(path);
+        if (!attributes) {
+            const prim = chain[chain.length - 1];
+            const siblings = chain.length > 1 ? primChildren(chain[chain.length - 2]) : this._stage?.root ?? [];
+            attributes = defaultAttributes(prim, Math.max(0, siblings.indexOf(prim)));
+            this._attributes.set(path, attributes);
+        }
+        return attributes;
+    }
+
+    /**
+    * @function _pathOf
+    *
+    * The path of the prim at `index` in a chain.
+    */
+    private _pathOf(chain: MockPrim[], index: number): string {
+        return '/' + chain.slice(0, index + 1).map(prim => prim.name).join('/');
+    }
+
+    /**
+    * @function _childrenOf
+    *
+    * The children of a prim of the loaded stage; the root prims for the pseudo-root '/'.
+    */
+    private _childrenOf(path: string): MockPrim[] {
+        if (path === '/')
+            return this._stage?.root ?? [];
+        const prim = this._findPrim(path);
+        return prim ? primChildren(prim) : [];
+    }
+
+    /**
+    * @function _childPath
+    *
+    * The path of a child prim.
+    */
+    private _childPath(parentPath: string, name: string): string {
+        return parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+    }
+
+    /**
+    * @function _findPrim
+    *
+    * Find a prim of the loaded stage by path.
+    */
+    private _findPrim(path: string): MockPrim | null {
+        const chain = this._findPrimChain(path);
+        return chain ? chain[chain.length - 1] : null;
+    }
+
+    /**
+    * @function _findPrimChain
+    *
+    * Find a prim of the loaded stage by path, along with its ancestors, root first.
+    */
+    private _findPrimChain(path: string): MockPrim[] | null {
+        if (!this._stage)
+            return null;
+
+        let prims: MockPrim[] = this._stage.root;
+        const chain: MockPrim[] = [];
+        for (const name of path.split('/').filter(Boolean)) {
+            const found: MockPrim | undefined = prims.find(prim => prim.name === name);
+            if (!found)
+                return null;
+            chain.push(found);
+            prims = primChildren(found);
+        }
+        return chain.length > 0 ? chain : null;
+    }
+}
@@ -0,0 +1,205 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Scripted attributes, relationships and metadata for the prims of the mock stages.
+ */
+import { USDAttribute, USDAttributeValue, USDRelationship } from '../Protocol';
+import { MockPrim } from './stages';
+
+const gprimTypes = new Set(["Mesh", "Cube", "Sphere", "Cylinder", "Cone", "Capsule"]);
+const xformableTypes = new Set(["Xform", "Camera", "DistantLight", "DomeLight", ...gprimTypes]);
+
+const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+const attribute = (name: string, type_name: string, value: USDAttributeValue, writable = true): USDAttribute =>
+    ({ name, type_name, value, writable });
+
+/**
+ * @function isXformable
+ *
+ * True for prim types that have a transform.
+ */
+export function isXformable(prim: MockPrim): boolean {
+    return xformableTypes.has(prim.type);
+}
+
+/**
+ * @function defaultAttributes
+ *
+ * The attributes a prim starts with. `index` is the position of the prim among its siblings
+ * and spreads siblings out along the X axis.
+ */
+export function defaultAttributes(prim: MockPrim, index: number): USDAttribute[] {
+    const attributes: USDAttribute[] = [];
+
+    if (prim.type !== "Material" && prim.type !== "Shader")
+        attributes.push(attribute("visibility", "token", "inherited"), attribute("purpose", "token", "default"));
+
+    if (isXformable(prim)) {
+        attributes.push(
+            attribute("xformOp:translate", "double3", [index * 150, 0, 0]),
+            attribute("xformOp:rotateXYZ", "float3", [0, 0, 0]),
+            attribute("xformOp:scale", "float3", [1, 1, 1]),
+            attribute("xformOpOrder", "token[]", ["xformOp:translate", "xformOp:rotateXYZ", "xformOp:scale"], false)
+        );
+    }
+
+    if (gprimTypes.has(prim.type)) {
+        attributes.push(
+            attribute("doubleSided", "bool", false),
+            attribute("primvars:displayColor", "color3f[]", [[0.46, 0.73, 0]]),
+            attribute("extent", "float3[]", [[-50, -50, -50], [50, 50, 50]], false)
+        );
+    }
+
+    switch (prim.type) {
+        case "Mesh":
+            attributes.push(
+                attribute("faceVertexCounts", "int[]", [4, 4, 4, 4, 4, 4], false),
+                attribute("subdivisionScheme", "token", "none")
+            );
+            break;
+        case "Cube":
+            attributes.push(attribute("size", "double", 100));
+            break;
+        case "Sphere":
+            attributes.push(attribute("radius", "double", 50));
+            break;
+        case "Cylinder":
+        case "Cone":
+        case "Capsule":
+            attributes.push(attribute("height", "double", 100), attribute("radius", "double", 50), attribute("axis", "token", "Y"));
+            break;
+        case "Camera":
+            attributes.push(
+                attribute("focalLength", "float", 18.15),
+                attribute("clippingRange", "float2", [1, 10000000]),
+                attribute("projection", "token", "perspective")
+            );
+            break;
+        case "DistantLight":
+            attributes.push(
+                attribute("inputs:intensity", "float", 3000),
+                attribute("inputs:angle", "float", 0.53),
+                attribute("inputs:color", "color3f", [1, 1, 1])
+            );
+            break;
+        case "DomeLight":
+            attributes.push(
+                attribute("inputs:intensity", "float", 1000),
+                attribute("inputs:texture:file", "asset", "")
+            );
+            break;
+        case "Shader":
+            attributes.push(
+                attribute("info:id", "token", "UsdPreviewSurface", false),
+                attribute("inputs:diffuseColor", "color3f", [0.5, 0.5, 0.5]),
+                attribute("inputs:metallic", "float", 0),
+                attribute("inputs:roughness", "float", 0.5)
+            );
+            break;
+    }
+
+    return attributes;
+}
+
+/**
+ * @function defaultRelationships
+ *
+ * Binds geometry to one of the sample materials.
+ */
+export function defaultRelationships(prim: MockPrim, defaultPrim: string): USDRelationship[] {
+    if (!gprimTypes.has(prim.type))
+        return [];
+    const material = prim.name.startsWith("Box") ? "Cardboard" : "Steel";
+    return [{ name: "material:binding", targets: [`/${defaultPrim}/Looks/${material}`] }];
+}
+
+/**
+ * @function primMetadata
+ *
+ * Metadata authored on a prim.
+ */
+export function primMetadata(prim: MockPrim): Record<string, USDAttributeValue> {
+    const metadata: Record<string, USDAttributeValue> = { specifier: "def", active: true };
+    if (prim.type === "Xform")
+        metadata.kind = prim.children?.some(child => child.type === "Xform") ? "group" : "component";
+    return metadata;
+}
+
+/**
+ * @function isCompatibleValue
+ *
+ * True if `value` has the same shape as `current`, so it can be authored on the attribute.
+ */
+export function isCompatibleValue(current: USDAttributeValue, value: USDAttributeValue): boolean {
+    if (Array.isArray(current)) {
+        if (!Array.isArray(value))
+            return false;
+        // arrays of vectors may change length, vectors may not
+        if (!current.some(Array.isArray) && current.length !== value.length)
+            return false;
+        const element = current[0];
+        return element === undefined || value.every(item => isCompatibleValue(element, item));
+    }
+    if (typeof current === "number")
+        return typeof value === "number" && isFinite(value);
+    return current === null || typeof current === typeof value;
+}
+
+/**
+ * @function multiply
+ *
+ * Multiplies two row-major 4x4 matrices.
+ */
+function multiply(a: number[], b: number[]): number[] {
+    const result = new Array<number>(16).fill(0);
+    for (let row = 0; row < 4; row++)
+        for (let column = 0; column < 4; column++)
+            for (let k = 0; k < 4; k++)
+                result[row * 4 + column] += a[row * 4 + k] * b[k * 4 + column];
+    return result;
+}
+
+/**
+ * @function localTransform
+ *
+ * Composes the translate, rotateXYZ and scale ops of a prim. USD multiplies row vectors
+ * from the left, so the op applied first (scale) comes first.
+ */
+export function localTransform(attributes: USDAttribute[]): number[] {
+    const vector = (name: string, fallback: number[]): number[] => {
+        const value = attributes.find(item => item.name === name)?.value;
+        return Array.isArray(value) && value.length === 3 && value.every(item => typeof item === "number") ? value as number[] : fallback;
+    };
+    const [tx, ty, tz] = vector("xformOp:translate", [0, 0, 0]);
+    const [rx, ry, rz] = vector("xformOp:rotateXYZ", [0, 0, 0]).map(degrees => degrees * Math.PI / 180);
+    const [sx, sy, sz] = vector("xformOp:scale", [1, 1, 1]);
+
+    const scale = [sx, 0, 0, 0, 0, sy, 0, 0, 0, 0, sz, 0, 0, 0, 0, 1];
+    const rotateX = [1, 0, 0, 0, 0, Math.cos(rx), Math.sin(rx), 0, 0, -Math.sin(rx), Math.cos(rx), 0, 0, 0, 0, 1];
+    const rotateY = [Math.cos(ry), 0, -Math.sin(ry), 0, 0, 1, 0, 0, Math.sin(ry), 0, Math.cos(ry), 0, 0, 0, 0, 1];
+    const rotateZ = [Math.cos(rz), Math.sin(rz), 0, 0, -Math.sin(rz), Math.cos(rz), 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+    const translate = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, tx, ty, tz, 1];
+
+    return [scale, rotateX, rotateY, rotateZ, translate].reduce(multiply, identity);
+}
+
+/**
+ * @function worldTransform
+ *
+ * Composes the local transforms of a prim and its ancestors, root first.
+ */
+export function worldTransform(localTransforms: number[][]): number[] {
+    return localTransforms.reduceRight((world, local) => multiply(world, local), identity);
+}
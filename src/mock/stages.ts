@@ -0,0 +1,207 @@
+/*
+ * SPDX-FileCopyrightText: Copyright (c) 2024 NVIDIA CORPORATION & AFFILIATES. All rights reserved.
+ * SPDX-License-Identifier: LicenseRef-NvidiaProprietary
+ *
+ * NVIDIA CORPORATION, its affiliates and licensors retain all intellectual
+ * property and proprietary rights in and to this material, related
+ * documentation and any modifications thereto. Any use, reproduction,
+ * disclosure or distribution of this material and related documentation
+ * without an express license agreement from NVIDIA CORPORATION or
+ * its affiliates is strictly prohibited.
+ */
+
+/*
+ * Scripted prim hierarchies served by the mock Kit application.
+ */
+
+export interface MockPrim {
+    name: string;
+    type: string;
+    children?: MockPrim[];
+    variantSets?: MockVariantSet[];
+}
+
+// The prims of the selected variant are added to the children of the prim
+export interface MockVariantSet {
+    name: string;
+    selection: string | null;
+    variants: { [variant: string]: MockPrim[] };
+}
+
+export interface MockStage {
+    defaultPrim: string;
+    root: MockPrim[];
+}
+
+// Prim types listed for each filter of getChildrenRequest and searchPrimsRequest
+const filterTypes: { [filter: string]: Set<string> } = {
+    USDGeom: new Set(["Xform", "Scope", "Mesh", "Cube", "Sphere", "Cylinder", "Cone", "Capsule"]),
+    UsdLux: new Set(["DistantLight", "DomeLight", "SphereLight", "RectLight", "DiskLight", "CylinderLight"]),
+    Camera: new Set(["Camera"]),
+    UsdShade: new Set(["Material", "Shader"])
+};
+
+/**
+ * @function matchesFilters
+ *
+ * True if a prim is listed for any of the filters. Without filters every prim is listed.
+ */
+export function matchesFilters(prim: MockPrim, filters: string[]): boolean {
+    return filters.length === 0 || filters.some(filter => filterTypes[filter]?.has(prim.type));
+}
+
+/**
+ * @function primChildren
+ *
+ * The children of a prim, including those of its selected variants.
+ */
+export function primChildren(prim: MockPrim): MockPrim[] {
+    const variantChildren = (prim.variantSets ?? [])
+        .flatMap(variantSet => variantSet.selection === null ? [] : variantSet.variants[variantSet.selection] ?? []);
+    return variantChildren.length > 0 ? [...(prim.children ?? []), ...variantChildren] : prim.children ?? [];
+}
+
+const mesh = (name: string): MockPrim => ({ name, type: "Mesh" });
+const xform = (name: string, children: MockPrim[]): MockPrim => ({ name, type: "Xform", children });
+
+/**
+ * @function shelving
+ *
+ * A rack of shelves used to give the sample stages some depth.
+ */
+function shelving(name: string, shelfCount: number): MockPrim {
+    const shelves: MockPrim[] = [];
+    for (let i = 1; i <= shelfCount; i++) {
+        shelves.push(xform(`Shelf_${String(i).padStart(2, '0')}`, [
+            mesh("Board"),
+            xform("Boxes", [mesh("Box_A"), mesh("Box_B"), mesh("Box_C")])
+        ]));
+    }
+    return xform(name, [mesh("Frame"), ...shelves]);
+}
+
+const lookPrims: MockPrim[] = [{
+    name: "Looks",
+    type: "Scope",
+    children: [
+        { name: "Steel", type: "Material", children: [{ name: "Shader", type: "Shader" }] },
+        { name: "Cardboard", type: "Material", children: [{ name: "Shader", type: "Shader" }] }
+    ]
+}];
+
+const stage01: MockStage = {
+    defaultPrim: "World",
+    root: [{
+        name: "World",
+        type: "Xform",
+        children: [
+            xform("Warehouse", [mesh("Floor"), mesh("Walls"), mesh("Roof")]),
+            xform("Racks", [shelving("Rack_A", 4), shelving("Rack_B", 4), shelving("Rack_C", 6)]),
+            {
+                ...xform("Forklift", [mesh("Body"), mesh("Mast"), xform("Wheels", [mesh("Wheel_FL"), mesh("Wheel_FR"), mesh("Wheel_RL"), mesh("Wheel_RR")])]),
+                variantSets: [
+                    { name: "paint", selection: "Yellow", variants: { Yellow: [], Red: [], Blue: [] } },
+                    { name: "trim", selection: "Standard", variants: { Standard: [], Chrome: [mesh("ChromeTrim")] } },
+                    {
+                        name: "configuration",
+                        selection: "Open",
+                        variants: {
+                            Open: [],
+                            Cab: [xform("Cab", [mesh("Roof"), mesh("Doors"), mesh("Windshield")])],
+                            Cage: [xform("Cage", [mesh("Roof"), mesh("Posts")])]
+                        }
+                    }
+                ]
+            },
+            { name: "Camera", type: "Camera" },
+            { name: "SunLight", type: "DistantLight" },
+            ...lookPrims
+        ]
+    }]
+};
+
+const stage02: MockStage = {
+    defaultPrim: "World",
+    root: [{
+        name: "World",
+        type: "Xform",
+        children: [
+            xform("Ground", [mesh("Plane")]),
+            xform("Primitives", [
+                { name: "Cube", type: "Cube" },
+                { name: "Sphere", type: "Sphere" },
+                { name: "Cylinder", type: "Cylinder" },
+                { name: "Cone", type: "Cone" }
+            ]),
+            { name: "DomeLight", type: "DomeLight" },
+            ...lookPrims
+        ]
+    }]
+};
+
+const pad = (index: number, length: number): string => String(index).padStart(length, '0');
+
+/**
+ * @function factory
+ *
+ * A production hall of about 100,000 prims for trying the USD Stage with large stages.
+ */
+function factory(): MockStage {
+    const lines: MockPrim[] = [];
+    for (let line = 1; line <= 40; line++) {
+        const segments: MockPrim[] = [];
+        for (let segment = 1; segment <= 500; segment++)
+            segments.push(mesh(`Segment_${pad(segment, 3)}`));
+
+        const stations: MockPrim[] = [];
+        for (let station = 1; station <= 50; station++) {
+            const links = [1, 2, 3, 4, 5, 6].map(link => mesh(`Link_${link}`));
+            const parts: MockPrim[] = [];
+            for (let part = 1; part <= 30; part++)
+                parts.push(mesh(`Part_${pad(part, 2)}`));
+            stations.push(xform(`Station_${pad(station, 2)}`, [
+                xform("Robot", [mesh("Base"), ...links, mesh("Gripper")]),
+                xform("Bin", parts)
+            ]));
+        }
+        lines.push(xform(`Line_${pad(line, 2)}`, [xform("Conveyor", segments), ...stations]));
+    }
+
+    // the default prim is not /World, and a second root prim holds the planning layout
+    return {
+        defaultPrim: "Factory",
+        root: [
+            {
+                name: "Factory",
+                type: "Xform",
+                children: [xform("Hall", [mesh("Floor"), mesh("Walls")]), xform("Lines", lines), { name: "SunLight", type: "DistantLight" }, ...lookPrims]
+            },
+            xform("Layout", [mesh("Footprints"), mesh("Walkways"), { name: "OverviewCamera", type: "Camera" }])
+        ]
+    };
+}
+
+/**
+ * @function uploadedStage
+ *
+ * The stage served for an uploaded file the mock has no script for.
+ */
+export function uploadedStage(fileName: string): MockStage {
+    return {
+        defaultPrim: "World",
+        root: [xform("World", [mesh(fileName.replace(/\W/g, '_')), { name: "DomeLight", type: "DomeLight" }])]
+    };
+}
+
+// Stages that fail partway through loading, with the error Kit reports for them
+export const mockFailingStages: { [fileName: string]: string } = {
+    "broken.usd": "Failed to open layer @./materials/Paint.mdl@: the file does not exist."
+};
+
+// Stages are looked up by file name so both token and relative sample URLs resolve.
+// They are built when first opened.
+export const mockStages: { [fileName: string]: () => MockStage } = {
+    "stage01.usd": () => stage01,
+    "stage02.usd": () => stage02,
+    "factory.usd": factory
+};